@@ -7,6 +7,9 @@ export enum Action {
     DeleteFile,
     OpenFolder,
     OpenFolderInNewWindow,
+    RestoreFromTrash,
+    EmptyTrash,
+    ClearFilter,
 }
 
 export function action(label: string, action: Action) {
@@ -0,0 +1,118 @@
+import * as OSPath from "path";
+
+/**
+ * The outcome of renaming a single file with a batch rename pattern.
+ */
+export interface RenamePreview {
+    from: string;
+    to: string;
+    /**
+     * Why the file can't be renamed like this, if it can't.
+     */
+    problem?: string;
+}
+
+type Namer = (name: string, index: number) => string;
+
+/**
+ * Expand the variables in a template for the file `name`, which is number `index` (from
+ * zero) in the batch.
+ *
+ * The variables are `{name}` for the file name without its extension, `{ext}` for its
+ * extension including the dot, and `{n}` for a counter starting from 1. The counter can be
+ * zero padded to a given width, eg. `{n:03}`.
+ */
+function expandTemplate(template: string, name: string, index: number): string {
+    const extension = OSPath.extname(name);
+    return template.replace(/\{([^}]*)\}/g, (_match, variable: string) => {
+        if (variable === "name") {
+            return name.slice(0, name.length - extension.length);
+        }
+        if (variable === "ext") {
+            return extension;
+        }
+        const counter = /^n(?::0(\d+))?$/.exec(variable);
+        if (counter !== null) {
+            const width = counter[1] === undefined ? 0 : Number(counter[1]);
+            return String(index + 1).padStart(width, "0");
+        }
+        throw new Error(`Unknown variable {${variable}}`);
+    });
+}
+
+/**
+ * Split a `/find/replace/flags` pattern on its unescaped slashes.
+ */
+function splitRegexPattern(pattern: string): string[] {
+    const parts: string[] = [""];
+    for (let index = 1; index < pattern.length; index++) {
+        const char = pattern[index];
+        if (char === "\\" && pattern[index + 1] === "/") {
+            parts[parts.length - 1] += "/";
+            index++;
+        } else if (char === "/") {
+            parts.push("");
+        } else {
+            parts[parts.length - 1] += char;
+        }
+    }
+    return parts;
+}
+
+/**
+ * Parse a batch rename pattern.
+ *
+ * A pattern of the form `/find/replace/flags` replaces matches of the regular expression
+ * `find` with `replace`, which can refer to capture groups as `$1`, `$<name>` etc. Anything
+ * else is a template for the new name. Template variables (see [[expandTemplate]]) can be
+ * used in both forms.
+ *
+ * Throws an error describing the problem if the pattern is invalid.
+ */
+function parsePattern(pattern: string): Namer {
+    if (!pattern.startsWith("/")) {
+        return (name, index) => expandTemplate(pattern, name, index);
+    }
+    const [find, replace = "", flags = "", ...rest] = splitRegexPattern(pattern);
+    if (rest.length > 0) {
+        throw new Error("Too many slashes; use \\/ to match a slash");
+    }
+    const regex = new RegExp(find, flags);
+    return (name, index) => name.replace(regex, expandTemplate(replace, name, index));
+}
+
+/**
+ * Work out what each file in `names` would be renamed to by `pattern`, and what problems
+ * that would cause. `existing` is every name in the folder.
+ *
+ * Throws an error if the pattern is invalid.
+ */
+export function previewBatchRename(
+    pattern: string,
+    names: string[],
+    existing: string[]
+): RenamePreview[] {
+    const namer: Namer = pattern === "" ? (name) => name : parsePattern(pattern);
+    const previews: RenamePreview[] = names.map((from, index) => ({
+        from,
+        to: namer(from, index),
+    }));
+    const renamed = new Set(names);
+    const targets = new Map<string, number>();
+    for (const { to } of previews) {
+        targets.set(to, (targets.get(to) || 0) + 1);
+    }
+    for (const preview of previews) {
+        const { from, to } = preview;
+        if (to === "" || to === "." || to === "..") {
+            preview.problem = "not a valid name";
+        } else if (to.includes("/") || to.includes(OSPath.sep)) {
+            preview.problem = "contains a path separator";
+        } else if (targets.get(to)! > 1) {
+            preview.problem = "same name as another renamed file";
+        } else if (to !== from && existing.includes(to) && !renamed.has(to)) {
+            preview.problem = "a file by this name already exists";
+        }
+    }
+    return previews;
+}
@@ -0,0 +1,220 @@
+import * as vscode from "vscode";
+import { Uri, FileType, RelativePattern } from "vscode";
+import { Path } from "./path";
+import { globToRegExp } from "./glob";
+
+/**
+ * A map which only keeps the entries used most recently, forgetting the oldest once it has
+ * more than `capacity` of them.
+ */
+export class LRUCache<K, V> {
+    private entries: Map<K, V> = new Map();
+    private capacity: number;
+    private onForget?: (value: V) => void;
+
+    /**
+     * `onForget` is called with every value which leaves the cache, whether it's pushed out
+     * or deleted.
+     */
+    constructor(capacity: number, onForget?: (value: V) => void) {
+        this.capacity = capacity;
+        this.onForget = onForget;
+    }
+
+    get(key: K): V | undefined {
+        const value = this.entries.get(key);
+        if (value !== undefined) {
+            // Maps keep their insertion order, so this makes it the most recently used
+            this.entries.delete(key);
+            this.entries.set(key, value);
+        }
+        return value;
+    }
+
+    set(key: K, value: V) {
+        this.delete(key);
+        this.entries.set(key, value);
+        while (this.entries.size > this.capacity) {
+            this.delete(this.entries.keys().next().value as K);
+        }
+    }
+
+    delete(key: K) {
+        const value = this.entries.get(key);
+        if (value !== undefined) {
+            this.entries.delete(key);
+            this.onForget?.(value);
+        }
+    }
+
+    keys(): K[] {
+        return [...this.entries.keys()];
+    }
+
+    clear() {
+        for (const key of this.keys()) {
+            this.delete(key);
+        }
+    }
+}
+
+interface Listing {
+    records: Promise<[string, FileType][]>;
+    /**
+     * Watches the folder's entries, to forget the listing when they change, unless
+     * `files.watcherExclude` leaves the folder out.
+     */
+    watcher?: vscode.Disposable;
+    /**
+     * When the folder was read, in milliseconds since the epoch.
+     */
+    time: number;
+}
+
+/**
+ * How many folder listings to keep. Each one has a file system watcher of its own.
+ */
+const capacity = 200;
+
+/**
+ * The schemes whose file systems we trust to tell us about changes. Other file systems may
+ * not support watching at all, so their listings, like those of folders which aren't
+ * watched, are only kept for `unwatchedLifetime`.
+ */
+const watchedSchemes = ["file", "vscode-remote"];
+
+const unwatchedLifetime = 10 * 1000;
+
+/**
+ * The folders listed recently, by path ID, shared by every file browser.
+ */
+const listings: LRUCache<string, Listing> = new LRUCache(capacity, (listing) =>
+    listing.watcher?.dispose()
+);
+
+const changes = new vscode.EventEmitter<Uri>();
+
+/**
+ * Fires with the files and folders which have been created, changed or deleted in the
+ * folders listed.
+ */
+export const onDidChangeListed = changes.event;
+
+/**
+ * Forget the listing of `uri` and of every folder inside it, and the listing of the folder
+ * it's in, as it's changed or been created or deleted.
+ */
+export function forgetPath(uri: Uri) {
+    const path = new Path(uri);
+    const prefix = path.id.endsWith("/") ? path.id : `${path.id}/`;
+    listings.delete(path.id);
+    listings.delete(path.parent().id);
+    for (const id of listings.keys()) {
+        if (id.startsWith(prefix)) {
+            listings.delete(id);
+        }
+    }
+}
+
+/**
+ * Forget every listing, and stop watching the folders listed.
+ */
+export function clearListings() {
+    listings.clear();
+}
+
+function watchFolder(folder: Path): vscode.Disposable {
+    const watcher = vscode.workspace.createFileSystemWatcher(new RelativePattern(folder.uri, "*"));
+    const created = (uri: Uri) => {
+        forgetPath(uri);
+        changes.fire(uri);
+    };
+    // Saving a file doesn't change the folder it's in, only what's inside it if it's a folder
+    const changed = (uri: Uri) => {
+        listings.delete(new Path(uri).id);
+        changes.fire(uri);
+    };
+    return vscode.Disposable.from(
+        watcher,
+        watcher.onDidCreate(created),
+        watcher.onDidChange(changed),
+        watcher.onDidDelete(created)
+    );
+}
+
+/**
+ * Whether `files.watcherExclude` leaves `folder` out of file watching, going by whether it
+ * leaves out a file inside it. Patterns are matched against the whole path, and the path
+ * within the workspace folder.
+ */
+function isWatcherExcluded(folder: Path): boolean {
+    const globs =
+        vscode.workspace
+            .getConfiguration("files", folder.uri)
+            .get<{ [glob: string]: boolean }>("watcherExclude") || {};
+    const file = folder.append("file");
+    const paths = [file.uri.path];
+    const relativePath = folder
+        .getWorkspaceFolder()
+        .chain((workspaceFolder) => file.relativeTo(workspaceFolder.uri))
+        .getOr("..");
+    if (!relativePath.startsWith("..")) {
+        paths.push(relativePath);
+    }
+    return Object.entries(globs).some(
+        ([glob, excluded]) => excluded && paths.some((path) => globToRegExp(glob).test(path))
+    );
+}
+
+/**
+ * Read the entries of `folder`, or use the ones read last time if nothing has changed in
+ * it since. Where we can't watch for changes, on some file systems or in folders left out
+ * by `files.watcherExclude`, they're only used if they were read a moment ago.
+ *
+ * Unless `remember` is set, the entries are only read from the cache, not added to it, as
+ * when walking a whole tree.
+ */
+export function listDirectory(folder: Path, remember = true): Promise<[string, FileType][]> {
+    const listing = listings.get(folder.id);
+    if (listing !== undefined && isFresh(folder, listing)) {
+        return listing.records;
+    }
+    const records = Promise.resolve(vscode.workspace.fs.readDirectory(folder.uri));
+    if (!remember) {
+        return records;
+    }
+    const watcher = isWatcherExcluded(folder) ? undefined : watchFolder(folder);
+    listings.set(folder.id, { records, watcher, time: Date.now() });
+    // Don't remember failures, as the folder may just not exist yet
+    records.catch(() => {
+        if (listings.get(folder.id)?.records === records) {
+            listings.delete(folder.id);
+        }
+    });
+    return records;
+}
+
+function isFresh(folder: Path, listing: Listing): boolean {
+    const watched = listing.watcher !== undefined && watchedSchemes.includes(folder.uri.scheme);
+    return watched || Date.now() - listing.time < unwatchedLifetime;
+}
+
+/**
+ * Find out what kind of file `path` is. It's `undefined` if there's nothing there.
+ *
+ * If we've got a listing for `path` and it's no longer a folder, the listing is forgotten,
+ * in case we missed it going.
+ */
+export async function fileType(path: Path): Promise<FileType | undefined> {
+    let type: FileType | undefined;
+    try {
+        type = (await vscode.workspace.fs.stat(path.uri)).type;
+    } catch {
+        type = undefined;
+    }
+    const isFolder = type !== undefined && (type & FileType.Directory) === FileType.Directory;
+    if (!isFolder && listings.get(path.id) !== undefined) {
+        forgetPath(path.uri);
+    }
+    return type;
+}
@@ -0,0 +1,178 @@
+import * as vscode from "vscode";
+import { Uri, FileType } from "vscode";
+import { Option, Some, None } from "@bodil/opt";
+import { Path } from "./path";
+import { Journal, Transaction } from "./journal";
+import { forgetPath } from "./cache";
+
+/**
+ * Find the first brace group in `pattern` which isn't nested inside another, and which
+ * contains a comma or a `..` range. Returns the indices of its braces.
+ */
+function findBraceGroup(pattern: string): [number, number] | undefined {
+    let depth = 0;
+    let start = -1;
+    for (let index = 0; index < pattern.length; index++) {
+        if (pattern[index] === "{") {
+            if (depth === 0) {
+                start = index;
+            }
+            depth++;
+        } else if (pattern[index] === "}" && depth > 0) {
+            depth--;
+            if (depth === 0) {
+                const body = pattern.slice(start + 1, index);
+                if (splitAlternatives(body).length > 1 || /^-?\d+\.\.-?\d+$/.test(body)) {
+                    return [start, index];
+                }
+            }
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Split the body of a brace group on the commas which aren't nested in another group.
+ */
+function splitAlternatives(body: string): string[] {
+    const result = [""];
+    let depth = 0;
+    for (const char of body) {
+        if (char === "," && depth === 0) {
+            result.push("");
+            continue;
+        }
+        if (char === "{") {
+            depth++;
+        } else if (char === "}" && depth > 0) {
+            depth--;
+        }
+        result[result.length - 1] += char;
+    }
+    return result;
+}
+
+/**
+ * The most names a pattern can expand to, so that a typo like `{1..1000000}` doesn't fill
+ * the disk.
+ */
+export const maxExpansion = 1000;
+
+/**
+ * Expand shell style brace groups in `pattern`, eg. `{a,b}.ts` becomes `a.ts` and `b.ts`,
+ * and `part{1..3}` becomes `part1`, `part2` and `part3`. Groups can be nested.
+ *
+ * Throws an error if the pattern expands to more than `limit` names.
+ */
+export function expandBraces(pattern: string, limit = maxExpansion): string[] {
+    const tooMany = () => new Error(`"${pattern}" makes more than ${limit} names`);
+    const group = findBraceGroup(pattern);
+    if (group === undefined) {
+        return [pattern];
+    }
+    const [start, end] = group;
+    const prefix = pattern.slice(0, start);
+    const suffix = pattern.slice(end + 1);
+    const body = pattern.slice(start + 1, end);
+    let alternatives: string[];
+    const range = /^(-?\d+)\.\.(-?\d+)$/.exec(body);
+    if (range !== null) {
+        const [from, to] = [Number(range[1]), Number(range[2])];
+        if (Math.abs(to - from) + 1 > limit) {
+            throw tooMany();
+        }
+        const step = from <= to ? 1 : -1;
+        alternatives = [];
+        for (let value = from; value !== to + step; value += step) {
+            alternatives.push(String(value));
+        }
+    } else {
+        alternatives = splitAlternatives(body);
+    }
+    const result: string[] = [];
+    for (const alternative of alternatives) {
+        result.push(...expandBraces(prefix + alternative + suffix, limit));
+        if (result.length > limit) {
+            throw tooMany();
+        }
+    }
+    return result;
+}
+
+export interface Created {
+    /**
+     * The files named by the entries, whether they were created or already existed.
+     */
+    files: Uri[];
+    folders: Uri[];
+    /**
+     * The entries which couldn't be created.
+     */
+    failed: string[];
+}
+
+/**
+ * Find the outermost folder which would have to be created to create the path made of
+ * `segments` inside `folder`, or the path itself if only it is missing.
+ */
+async function outermostMissing(folder: Path, segments: string[]): Promise<Option<Uri>> {
+    let path = folder;
+    for (const segment of segments) {
+        path = path.append(segment);
+        if ((await path.stat()).isErr()) {
+            return Some(path.uri);
+        }
+    }
+    return None;
+}
+
+/**
+ * Create files and folders inside `folder`, given as relative paths. Entries ending in `/`
+ * are created as folders, anything else as files, with contents provided by `content`.
+ * Missing folders along the way are created too.
+ *
+ * Everything created is added to `transaction`, so that it can be undone.
+ */
+export async function createAll(
+    folder: Path,
+    entries: string[],
+    content: (uri: Uri) => Promise<Uint8Array>,
+    journal: Journal,
+    transaction: Transaction
+): Promise<Created> {
+    const result: Created = { files: [], folders: [], failed: [] };
+    for (const entry of entries) {
+        const isFolder = entry.endsWith("/");
+        const segments = entry.split("/").filter((segment) => segment.length > 0);
+        if (segments.length === 0) {
+            continue;
+        }
+        const uri = folder.append(...segments).uri;
+        try {
+            const stat = await new Path(uri).stat();
+            if (stat.isOk()) {
+                const existingType = stat.unwrap().type;
+                if (((existingType & FileType.Directory) === FileType.Directory) !== isFolder) {
+                    result.failed.push(entry);
+                } else {
+                    (isFolder ? result.folders : result.files).push(uri);
+                }
+                continue;
+            }
+            const missing = await outermostMissing(folder, segments);
+            forgetPath(missing.getOr(uri));
+            if (isFolder) {
+                await vscode.workspace.fs.createDirectory(uri);
+                result.folders.push(uri);
+            } else {
+                await vscode.workspace.fs.createDirectory(new Path(uri).parent().uri);
+                await vscode.workspace.fs.writeFile(uri, await content(uri));
+                result.files.push(uri);
+            }
+            missing.ifSome((missing) => transaction.record(journal.created(missing)));
+        } catch {
+            result.failed.push(entry);
+        }
+    }
+    return result;
+}
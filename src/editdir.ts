@@ -0,0 +1,310 @@
+import * as vscode from "vscode";
+import { Uri, FileType, FileStat, FileSystemError, FileChangeType } from "vscode";
+import * as OSPath from "path";
+import { readSortedDirectory } from "./fileitem";
+import { Journal } from "./journal";
+import { forgetPath } from "./cache";
+import { config, ConfigItem } from "./extension";
+
+export const directoryBufferScheme = "file-browser-dir";
+
+/**
+ * Get the [[Uri]] of the editable listing of `folder`.
+ */
+export function directoryBufferUri(folder: Uri): Uri {
+    return Uri.from({
+        scheme: directoryBufferScheme,
+        path: folder.path,
+        query: folder.toString(),
+    });
+}
+
+export interface DirectoryEdit {
+    renames: [string, string][];
+    deletes: string[];
+    creates: string[];
+}
+
+/**
+ * Work out what happened to a folder listing, given the lines before and after editing.
+ *
+ * The lines are lined up in the way which takes the fewest changes, where changing a line
+ * counts the same as removing or adding one, and ties go to removing and adding. A changed
+ * line is only taken as a rename if there are as many lines as before and its old name is
+ * gone, as otherwise it's more likely that one line was removed and another added, and
+ * renaming would move files' contents onto other names. Removed and added lines are
+ * deleted and created, except that a line removed in one place and added back in another
+ * has only moved, and is left alone.
+ *
+ * Folders are listed with a trailing `/`, which is kept on deletes and creates, but not on
+ * renames.
+ */
+export function diffListing(before: string[], after: string[]): DirectoryEdit {
+    const edit: DirectoryEdit = { renames: [], deletes: [], creates: [] };
+    const removals: string[] = [];
+    const additions: string[] = [];
+    const kept = new Set(after.map(stripSlash));
+    for (const [from, to] of align(before, after)) {
+        if (to === undefined) {
+            removals.push(from!);
+        } else if (from === undefined) {
+            additions.push(to);
+        } else if (stripSlash(from) === stripSlash(to)) {
+            continue;
+        } else if (before.length === after.length && !kept.has(stripSlash(from))) {
+            edit.renames.push([stripSlash(from), stripSlash(to)]);
+        } else {
+            removals.push(from);
+            additions.push(to);
+        }
+    }
+    edit.deletes = removals.filter((line) => !additions.includes(line));
+    edit.creates = additions.filter((line) => !removals.includes(line));
+    return edit;
+}
+
+function stripSlash(line: string): string {
+    return line.endsWith("/") ? line.slice(0, line.length - 1) : line;
+}
+
+/**
+ * Line up two lists of lines with as few changes as possible, as pairs of a line before and
+ * the line after it became, with `undefined` on one side for removed and added lines. Where
+ * it's a tie, lines are removed and added rather than paired up.
+ */
+function align(before: string[], after: string[]): [string?, string?][] {
+    // The number of changes needed to turn before[i..] into after[j..]
+    const costs: number[][] = [];
+    for (let i = before.length; i >= 0; i--) {
+        costs[i] = [];
+        for (let j = after.length; j >= 0; j--) {
+            if (i === before.length) {
+                costs[i][j] = after.length - j;
+            } else if (j === after.length) {
+                costs[i][j] = before.length - i;
+            } else {
+                costs[i][j] = Math.min(
+                    costs[i + 1][j + 1] + (before[i] === after[j] ? 0 : 1),
+                    costs[i + 1][j] + 1,
+                    costs[i][j + 1] + 1
+                );
+            }
+        }
+    }
+    const result: [string?, string?][] = [];
+    let [i, j] = [0, 0];
+    while (i < before.length || j < after.length) {
+        const same = i < before.length && j < after.length && before[i] === after[j];
+        if (same && costs[i][j] === costs[i + 1][j + 1]) {
+            result.push([before[i++], after[j++]]);
+        } else if (i < before.length && costs[i][j] === costs[i + 1][j] + 1) {
+            result.push([before[i++], undefined]);
+        } else if (j < after.length && costs[i][j] === costs[i][j + 1] + 1) {
+            result.push([undefined, after[j++]]);
+        } else {
+            result.push([before[i++], after[j++]]);
+        }
+    }
+    return result;
+}
+
+function parseListing(text: string): string[] {
+    return text
+        .split(/\r?\n/)
+        .map((line) => line.trimEnd())
+        .filter((line) => line.length > 0);
+}
+
+/**
+ * Check an edited listing for names we can't act on. Returns an error message, if any.
+ */
+function validate(lines: string[]): string | undefined {
+    const names = new Set<string>();
+    for (const line of lines) {
+        const name = stripSlash(line);
+        if (name.length === 0 || name === "." || name === "..") {
+            return `"${line}" is not a valid name`;
+        }
+        if (name.includes("/") || name.includes(OSPath.sep)) {
+            return `"${line}" contains a path separator`;
+        }
+        if (names.has(name)) {
+            return `"${name}" is listed more than once`;
+        }
+        names.add(name);
+    }
+    return undefined;
+}
+
+/**
+ * Check that no rename or create would land on a file which is in the folder now and isn't
+ * going to be moved out of the way, as nothing is ever overwritten. Returns an error
+ * message, if any.
+ */
+async function findConflict(folder: Uri, edit: DirectoryEdit): Promise<string | undefined> {
+    const records = await vscode.workspace.fs.readDirectory(folder);
+    const present = new Set(records.map(([name]) => name));
+    for (const [from] of edit.renames) {
+        present.delete(from);
+    }
+    for (const line of edit.deletes) {
+        present.delete(stripSlash(line));
+    }
+    const targets = [...edit.renames.map(([, to]) => to), ...edit.creates.map(stripSlash)];
+    const taken = targets.find((name) => present.has(name));
+    return taken === undefined ? undefined : `"${taken}" already exists`;
+}
+
+function describe(edit: DirectoryEdit): string[] {
+    return [
+        ...edit.renames.map(([from, to]) => `Rename ${from} → ${to}`),
+        ...edit.deletes.map((name) =>
+            config(ConfigItem.UseTrash) ? `Delete ${name}` : `Permanently delete ${name}`
+        ),
+        ...edit.creates.map((name) => `Create ${name}`),
+    ];
+}
+
+/**
+ * A file system presenting each folder as a text document listing its contents, one name
+ * per line. Saving the document applies the changes made to the listing to the folder,
+ * after asking for confirmation.
+ */
+export class DirectoryBufferProvider implements vscode.FileSystemProvider {
+    private journal: Journal;
+    private listings: Map<string, string[]> = new Map();
+    private mtimes: Map<string, number> = new Map();
+    private changeEmitter = new vscode.EventEmitter<vscode.FileChangeEvent[]>();
+
+    onDidChangeFile = this.changeEmitter.event;
+
+    constructor(journal: Journal) {
+        this.journal = journal;
+    }
+
+    watch(): vscode.Disposable {
+        return new vscode.Disposable(() => undefined);
+    }
+
+    stat(uri: Uri): FileStat {
+        return { type: FileType.File, ctime: 0, mtime: this.mtime(uri), size: 0 };
+    }
+
+    readDirectory(): [string, FileType][] {
+        return [];
+    }
+
+    createDirectory(uri: Uri) {
+        throw FileSystemError.NoPermissions(uri);
+    }
+
+    async readFile(uri: Uri): Promise<Uint8Array> {
+        const folder = Uri.parse(uri.query);
+        const records = await readSortedDirectory(folder);
+        const lines = records.map(([name, fileType]) =>
+            (fileType & FileType.Directory) === FileType.Directory ? `${name}/` : name
+        );
+        // Edits are worked out against the listing as it was shown
+        this.listings.set(uri.toString(), lines);
+        return Buffer.from(lines.map((line) => `${line}\n`).join(""));
+    }
+
+    async writeFile(uri: Uri, content: Uint8Array) {
+        const folder = Uri.parse(uri.query);
+        const before = this.listings.get(uri.toString());
+        if (before === undefined) {
+            throw FileSystemError.FileNotFound(uri);
+        }
+        const after = parseListing(Buffer.from(content).toString());
+        const problem = validate(after);
+        if (problem !== undefined) {
+            vscode.window.showErrorMessage(`Can't apply changes to the folder: ${problem}`);
+            throw FileSystemError.NoPermissions(uri);
+        }
+        const edit = diffListing(before, after);
+        const conflict = await findConflict(folder, edit);
+        if (conflict !== undefined) {
+            vscode.window.showErrorMessage(`Can't apply changes to the folder: ${conflict}`);
+            throw FileSystemError.NoPermissions(uri);
+        }
+        const summary = describe(edit);
+        if (summary.length === 0) {
+            return;
+        }
+        const goAhead = "Apply";
+        const changes = summary.length === 1 ? "change" : "changes";
+        const answer = await vscode.window.showWarningMessage(
+            `Apply ${summary.length} ${changes} to ${folder.fsPath}?`,
+            { modal: true, detail: summary.join("\n") },
+            goAhead
+        );
+        if (answer !== goAhead) {
+            throw FileSystemError.Unavailable("Changes to the folder were not applied");
+        }
+        const failed = await this.apply(folder, before, edit);
+        if (failed.length > 0) {
+            vscode.window.showErrorMessage(
+                `Failed to apply some changes to the folder: ${failed.join(", ")}`
+            );
+        }
+        // Reload the listing to show what the folder looks like now
+        this.mtimes.set(uri.toString(), Date.now());
+        this.changeEmitter.fire([{ type: FileChangeType.Changed, uri }]);
+    }
+
+    delete(uri: Uri) {
+        throw FileSystemError.NoPermissions(uri);
+    }
+
+    rename(uri: Uri) {
+        throw FileSystemError.NoPermissions(uri);
+    }
+
+    private mtime(uri: Uri): number {
+        const key = uri.toString();
+        if (!this.mtimes.has(key)) {
+            this.mtimes.set(key, Date.now());
+        }
+        return this.mtimes.get(key)!;
+    }
+
+    /**
+     * Apply an edit to a folder as a single undo step. Returns the names which couldn't
+     * be changed.
+     */
+    private async apply(folder: Uri, before: string[], edit: DirectoryEdit): Promise<string[]> {
+        const transaction = this.journal.begin(`edit of "${OSPath.posix.basename(folder.path)}"`);
+        const failed: string[] = [];
+        const target = (name: string) => Uri.joinPath(folder, name);
+
+        for (const name of edit.deletes) {
+            if (!(await transaction.run(this.journal.delete(target(stripSlash(name)))))) {
+                failed.push(name);
+            }
+        }
+
+        const existing = new Set(before.map(stripSlash));
+        const renames = await transaction.renameAll(folder, edit.renames, existing);
+        for (const { name, temporary } of renames) {
+            failed.push(temporary === undefined ? name : `${name} (left as ${temporary})`);
+        }
+
+        for (const line of edit.creates) {
+            const uri = target(stripSlash(line));
+            forgetPath(uri);
+            try {
+                if (line.endsWith("/")) {
+                    await vscode.workspace.fs.createDirectory(uri);
+                } else {
+                    await vscode.workspace.fs.writeFile(uri, new Uint8Array());
+                }
+                transaction.record(this.journal.created(uri));
+            } catch {
+                failed.push(line);
+            }
+        }
+
+        transaction.commit();
+        return failed;
+    }
+}
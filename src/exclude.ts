@@ -0,0 +1,143 @@
+import * as vscode from "vscode";
+import * as OSPath from "path";
+import { Path } from "./path";
+import { FileItem } from "./fileitem";
+import { globToRegExp } from "./glob";
+import { config, ConfigItem } from "./extension";
+
+export enum ExcludeSource {
+    FilesExclude = "filesExclude",
+    SearchExclude = "searchExclude",
+}
+
+/**
+ * A glob map like `files.exclude`, where each pattern is either on or off, or only applies
+ * when a sibling matching the `when` pattern exists.
+ */
+type GlobMap = { [glob: string]: boolean | { when: string } | undefined };
+
+interface Pattern {
+    pattern: RegExp;
+    /**
+     * The sibling which has to exist for the pattern to apply, with `$(basename)` standing
+     * for the name of the file without its extension.
+     */
+    when?: string;
+    /**
+     * The setting the pattern came from, for display.
+     */
+    source: string;
+}
+
+function readGlobMap(section: string, folder: Path): GlobMap {
+    return vscode.workspace.getConfiguration(section, folder.uri).get<GlobMap>("exclude") || {};
+}
+
+/**
+ * The patterns from VS Code's `files.exclude` and `search.exclude` settings, as they apply
+ * to a folder, so that the file browser can hide the same files as the Explorer does.
+ */
+export class Excludes {
+    private patterns: Pattern[] = [];
+    private workspaceFolder?: Path;
+
+    constructor(folder: Path) {
+        this.workspaceFolder = folder
+            .getWorkspaceFolder()
+            .map((workspaceFolder) => new Path(workspaceFolder.uri))
+            .getOr(undefined);
+        const sources: ExcludeSource[] = config(ConfigItem.ExcludeSources) || [];
+        const sections: [ExcludeSource, string][] = [
+            [ExcludeSource.FilesExclude, "files"],
+            [ExcludeSource.SearchExclude, "search"],
+        ];
+        for (const [source, section] of sections) {
+            if (!sources.includes(source)) {
+                continue;
+            }
+            for (const [glob, value] of Object.entries(readGlobMap(section, folder))) {
+                if (!value) {
+                    continue;
+                }
+                this.patterns.push({
+                    pattern: globToRegExp(glob),
+                    when: typeof value === "object" ? value.when : undefined,
+                    source: `${section}.exclude`,
+                });
+            }
+        }
+    }
+
+    get isEmpty(): boolean {
+        return this.patterns.length === 0;
+    }
+
+    /**
+     * Get the path the patterns are matched against: relative to the workspace folder, or
+     * for paths outside the workspace, the whole path.
+     */
+    private relativePath(path: Path): string {
+        if (this.workspaceFolder !== undefined) {
+            const relativePath = path.relativeTo(this.workspaceFolder.uri).getOr("..");
+            if (!relativePath.startsWith("..")) {
+                return relativePath;
+            }
+        }
+        return path.uri.path.replace(/^\//, "");
+    }
+
+    /**
+     * Find the pattern which excludes `path`, given the names of its siblings.
+     */
+    private match(path: Path, siblings: Set<string>): Pattern | undefined {
+        const relativePath = this.relativePath(path);
+        const name = OSPath.posix.basename(relativePath);
+        return this.patterns.find(({ pattern, when }) => {
+            if (!pattern.test(relativePath)) {
+                return false;
+            }
+            if (when === undefined) {
+                return true;
+            }
+            const baseName = name.slice(0, name.length - OSPath.posix.extname(name).length);
+            return siblings.has(when.replace(/\$\(basename\)/g, baseName));
+        });
+    }
+
+    /**
+     * Find the pattern which excludes one of the folders `path` is in, below the workspace
+     * folder, as nothing inside an excluded folder is shown either.
+     */
+    private matchFolders(path: Path): Pattern | undefined {
+        const relativePath = this.relativePath(path);
+        const segments = relativePath.split("/");
+        for (let length = 1; length < segments.length; length++) {
+            const folder = segments.slice(0, length).join("/");
+            const pattern = this.patterns.find(
+                ({ pattern, when }) => when === undefined && pattern.test(folder)
+            );
+            if (pattern !== undefined) {
+                return pattern;
+            }
+        }
+        return undefined;
+    }
+
+    filter(base: Path, items: FileItem[]): FileItem[] {
+        if (this.isEmpty) {
+            return items;
+        }
+        const siblings = new Set(items.map((item) => OSPath.posix.basename(item.name)));
+        return items.map((item) => {
+            const path = base.append(item.name);
+            const pattern = this.matchFolders(path) || this.match(path, siblings);
+            if (pattern !== undefined) {
+                item.alwaysShow = false;
+                if (config(ConfigItem.LabelIgnoredFiles)) {
+                    item.description = `(in ${pattern.source})`;
+                }
+            }
+            return item;
+        });
+    }
+}
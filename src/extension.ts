@@ -3,11 +3,31 @@ import { Uri, FileType, QuickInputButton, ThemeIcon, ViewColumn } from "vscode";
 import * as OS from "os";
 import * as OSPath from "path";
 
-import { Result, None, Option, Some } from "@bodil/opt";
+import { Result, None, Option, Some, Ok, Err } from "@bodil/opt";
 import { Path, endsWithPathSeparator } from "./path";
-import { Rules } from "./filter";
-import { FileItem, fileRecordCompare } from "./fileitem";
+import { Rules, watchRuleFiles } from "./filter";
+import { Excludes } from "./exclude";
+import { clearListings, fileType, forgetPath, listDirectory } from "./cache";
+import { FileItem, readSortedDirectory } from "./fileitem";
 import { action, Action } from "./action";
+import { Register, RegisterMode, describeTransfer } from "./register";
+import { describeRenameFailure, Journal, Operation, OperationKind } from "./journal";
+import { Trash, trashItem } from "./trash";
+import { previewBatchRename, RenamePreview } from "./batchrename";
+import { createAll, expandBraces } from "./create";
+import { Mark, markFolder, Marks } from "./marks";
+import { Jump, JumpList } from "./jumplist";
+import { Finder } from "./finder";
+import { fuzzyFilter } from "./fuzzy";
+import { globFilter } from "./glob";
+import { Frecency, pickFrequentFolder } from "./frecency";
+import { displayPath, pickRoot, WorkspaceRoots } from "./workspace";
+import { describeFile } from "./metadata";
+import { defaultSort, describeSort, nextSortOrder, Sort } from "./sort";
+import { gitStatuses, statusOf, watchGitStatuses } from "./git";
+import { FolderPreviewProvider, folderPreviewScheme, Preview } from "./preview";
+import { chooseTemplate, expandTemplate, findTemplates, Template } from "./templates";
+import { DirectoryBufferProvider, directoryBufferScheme, directoryBufferUri } from "./editdir";
 
 export enum ConfigItem {
     RemoveIgnoredFiles = "removeIgnoredFiles",
@@ -15,18 +35,90 @@ export enum ConfigItem {
     HideIgnoreFiles = "hideIgnoredFiles",
     IgnoreFileTypes = "ignoreFileTypes",
     LabelIgnoredFiles = "labelIgnoredFiles",
+    UseTrash = "useTrash",
+    Templates = "templates",
+    ShowMetadata = "showMetadata",
+    SortOrder = "sortOrder",
+    DirectoriesFirst = "directoriesFirst",
+    GitStatus = "gitStatus",
+    Preview = "preview",
+    ExcludeSources = "excludeSources",
 }
 
+/**
+ * Settings changed from inside the file browser, which last until VS Code is restarted.
+ */
+const sessionConfig: Map<ConfigItem, unknown> = new Map();
+
 export function config<A>(item: ConfigItem): A | undefined {
+    if (sessionConfig.has(item)) {
+        return sessionConfig.get(item) as A;
+    }
     return vscode.workspace.getConfiguration("file-browser").get(item);
 }
 
+/**
+ * Flip a boolean setting for the rest of the session, and return its new value.
+ */
+function toggleSessionConfig(item: ConfigItem): boolean {
+    const value = !config<boolean>(item);
+    sessionConfig.set(item, value);
+    return value;
+}
+
+/**
+ * How many items a half page motion moves by. The quick pick doesn't tell us how many rows
+ * it shows, so this is about half of what it usually fits.
+ */
+const halfPage = 10;
+
+/**
+ * How many files and folders can be created at once without asking first.
+ */
+const confirmCreateCount = 20;
+
+const visualModePlaceholder =
+    "VISUAL mode (ESC to exit, j/k to select, r to rename, d to delete, y to yank, x to cut)";
+
+const normalModePlaceholder =
+    "NORMAL mode (h,j,k,l to navigate | i for search | r to rename | d to delete | c for new file)";
+
 let active: Option<FileBrowser> = None;
+const register = new Register();
+const jumpList = new JumpList();
+let trash: Trash;
+let journal: Journal;
+let marks: Marks;
+let frecency: Frecency;
+let roots: WorkspaceRoots;
+
+/**
+ * The start of the label confirming a delete, which warns when it can't be undone.
+ */
+function deleteLabel(): string {
+    return config(ConfigItem.UseTrash) ? "$(trash) Delete" : "$(trash) Permanently delete";
+}
 
 function setContext(state: boolean) {
     vscode.commands.executeCommand("setContext", "inFileBrowser", state);
 }
 
+/**
+ * Work out where to start browsing: the folder of the active editor's file, with that file
+ * selected, or else the first workspace folder or the home folder.
+ */
+function startingPoint(): [Path, Option<string>] {
+    const document = vscode.window.activeTextEditor?.document;
+    const workspaceFolder = roots.current().map((folder) => folder.uri);
+    let path = new Path(workspaceFolder.getOr(Uri.file(OS.homedir())));
+    let file: Option<string> = None;
+    if (document && !document.isUntitled) {
+        path = new Path(document.uri);
+        file = path.pop();
+    }
+    return [path, file];
+}
+
 interface AutoCompletion {
     index: number;
     items: FileItem[];
@@ -38,15 +130,57 @@ class FileBrowser {
     file: Option<string>;
     items: FileItem[] = [];
     pathHistory: { [path: string]: Option<string> };
+    /**
+     * The sort chosen for each folder, where it's not the default.
+     */
+    sortHistory: { [path: string]: Sort } = {};
     inActions: boolean = false;
+    /**
+     * The folder the actions menu was opened from, when it's for an item in it, which in
+     * tree mode may be nested further down.
+     */
+    actionsFrom: Option<Path> = None;
     keepAlive: boolean = false;
     autoCompletion?: AutoCompletion;
     inSearchMode: boolean = false;
     inVisualMode: boolean = false;
     inRenameMode: boolean = false;
     inCreateMode: boolean = false;
+    inFilterMode: boolean = false;
+    inTrash: boolean = false;
+    inTreeMode: boolean = false;
+    showMetadata: boolean = !!config(ConfigItem.ShowMetadata);
+    /**
+     * Whether to only list files with uncommitted changes, and the folders they're in.
+     */
+    changedOnly: boolean = false;
+    /**
+     * The glob patterns files have to match to be listed, like `*.test.ts !*.map`, which
+     * apply to every folder until they're cleared.
+     */
+    fileFilter?: string;
+    previewing: boolean = !!config(ConfigItem.Preview);
+    preview: Preview = new Preview();
+    /**
+     * The folders expanded in tree mode, by path ID.
+     */
+    expanded: Set<string> = new Set();
     visualSelectionStart: number = -1;
     selectedItems: FileItem[] = [];
+    batchRenameItems: FileItem[] = [];
+    /**
+     * Every name in the folder, including those not listed, for checking batch renames.
+     */
+    batchRenameExisting: string[] = [];
+    pendingKey?: string;
+    /**
+     * The digits typed so far as a count for the next motion, as in `5j`.
+     */
+    count: string = "";
+    /**
+     * The character last searched for with `f`, for `;` to repeat.
+     */
+    lastFind?: string;
 
     actionsButton: QuickInputButton = {
         iconPath: new ThemeIcon("ellipsis"),
@@ -75,6 +209,9 @@ class FileBrowser {
         this.current.onDidTriggerButton(this.onDidTriggerButton.bind(this));
         this.current.onDidAccept(this.onDidAccept.bind(this));
         this.current.onDidChangeValue(this.onDidChangeValue.bind(this));
+        this.current.onDidChangeActive(this.onDidChangeActive.bind(this));
+        // Previewing a file mustn't close the file browser
+        this.current.ignoreFocusOut = this.previewing;
         
         // Handle the QuickPick hide event
         this.current.onDidHide(() => {
@@ -91,12 +228,13 @@ class FileBrowser {
         this.handleEscapeKey();
         
         this.update().then(() => {
-            this.current.placeholder = "NORMAL mode (h,j,k,l to navigate | i for search | r to rename | d to delete | c for new file)";
+            this.current.placeholder = normalModePlaceholder;
             this.current.busy = false;
             this.setSearchMode(false);
             this.setVisualMode(false);
             vscode.commands.executeCommand("setContext", "file-browser.inRenameMode", false);
             vscode.commands.executeCommand("setContext", "file-browser.inCreateMode", false);
+            vscode.commands.executeCommand("setContext", "file-browser.inFilterMode", false);
         });
     }
 
@@ -110,6 +248,7 @@ class FileBrowser {
 
     dispose() {
         setContext(false);
+        this.preview.close();
         this.current.dispose();
         active = None;
     }
@@ -131,11 +270,29 @@ class FileBrowser {
         // this.current.enabled = false;
         this.current.show();
         this.current.busy = true;
-        this.current.title = this.path.fsPath;
+        this.current.title = this.title();
         this.current.value = "";
+        this.count = "";
+
+        if (!this.inActions && !this.inTrash) {
+            // The active item still belongs to the folder we're leaving
+            jumpList.visit(this.path, this.activeItem().map((item) => item.name));
+        }
+
+        if (this.inTrash) {
+            const entries = await trash.list();
+            this.current.title = entries.length > 0 ? "Trash" : "Trash (empty)";
+            this.items = entries.map(trashItem);
+            if (this.items.length > 0) {
+                this.items.push(action("$(close-all) Empty the trash", Action.EmptyTrash));
+            }
+            this.current.items = this.items;
+            this.current.enabled = true;
+            return;
+        }
 
-        const stat = (await Result.await(vscode.workspace.fs.stat(this.path.uri))).unwrap();
-        if (stat && this.inActions && (stat.type & FileType.File) === FileType.File) {
+        const type = await fileType(this.path);
+        if (type !== undefined && this.inActions && (type & FileType.File) === FileType.File) {
             this.items = [
                 action("$(file) Open this file", Action.OpenFile),
                 action("$(split-horizontal) Open this file to the side", Action.OpenFileBeside),
@@ -144,9 +301,9 @@ class FileBrowser {
             ];
             this.current.items = this.items;
         } else if (
-            stat &&
+            type !== undefined &&
             this.inActions &&
-            (stat.type & FileType.Directory) === FileType.Directory
+            (type & FileType.Directory) === FileType.Directory
         ) {
             this.items = [
                 action("$(folder-opened) Open this folder", Action.OpenFolder),
@@ -158,20 +315,20 @@ class FileBrowser {
                 action("$(trash) Delete this folder", Action.DeleteFile),
             ];
             this.current.items = this.items;
-        } else if (stat && (stat.type & FileType.Directory) === FileType.Directory) {
-            const records = await vscode.workspace.fs.readDirectory(this.path.uri);
-            records.sort(fileRecordCompare);
-            let items = records.map((entry) => new FileItem(entry));
-            if (config(ConfigItem.HideIgnoreFiles)) {
-                const rules = await Rules.forPath(this.path);
-                items = rules.filter(this.path, items);
+        } else if (type !== undefined && (type & FileType.Directory) === FileType.Directory) {
+            let items = await this.listFolder(this.path);
+            if (config(ConfigItem.GitStatus) || this.changedOnly) {
+                items = await this.addGitStatus(items);
             }
-            if (config(ConfigItem.RemoveIgnoredFiles)) {
-                items = items.filter((item) => item.alwaysShow);
+            if (this.fileFilter !== undefined) {
+                items = this.applyFileFilter(items, this.fileFilter);
             }
             this.items = items;
             this.current.items = items;
             this.current.activeItems = items.filter((item) => this.file.value === item.name);
+            if (this.showMetadata) {
+                this.fillMetadata(items);
+            }
         } else {
             this.items = [action("$(new-folder) Create this folder", Action.NewFolder)];
             this.current.items = this.items;
@@ -179,20 +336,349 @@ class FileBrowser {
         this.current.enabled = true;
     }
 
+    /**
+     * List the items in `folder`, which is the current folder unless given a `parent` item,
+     * and in tree mode, the items in any expanded folders in it.
+     */
+    async listFolder(folder: Path, parent?: FileItem): Promise<FileItem[]> {
+        const records = await readSortedDirectory(folder.uri, this.sort(), () =>
+            listDirectory(folder)
+        );
+        let items = records.map((entry) => new FileItem(entry, parent));
+        if (config(ConfigItem.HideIgnoreFiles)) {
+            // Nested items are named relative to the current folder
+            const rules = await Rules.forPath(folder);
+            items = rules.filter(this.path, items);
+        }
+        items = new Excludes(folder).filter(this.path, items);
+        if (config(ConfigItem.RemoveIgnoredFiles)) {
+            items = items.filter((item) => item.alwaysShow);
+        }
+        if (!this.inTreeMode) {
+            return items;
+        }
+        const tree: FileItem[] = [];
+        for (const item of items) {
+            tree.push(item);
+            const path = this.path.append(item.name);
+            if (this.isExpanded(item)) {
+                item.label = item.label.replace("$(folder) ", "$(folder-opened) ");
+                const children = await Result.await(this.listFolder(path, item));
+                children.match(
+                    (children) => tree.push(...children),
+                    () => this.expanded.delete(path.id)
+                );
+            }
+        }
+        return tree;
+    }
+
+    /**
+     * Add size, modification time and permissions to the items' descriptions, a batch at a
+     * time so that big folders can be used before it's done.
+     */
+    async fillMetadata(items: FileItem[]) {
+        const batchSize = 50;
+        for (let start = 0; start < items.length; start += batchSize) {
+            await Promise.all(
+                items
+                    .slice(start, start + batchSize)
+                    .filter((item) => item.fileType !== undefined)
+                    .map(async (item) => {
+                        const metadata = await Result.await(
+                            describeFile(this.path.append(item.name).uri)
+                        );
+                        if (metadata.isOk()) {
+                            const description = metadata.unwrap();
+                            item.description = item.description
+                                ? `${item.description}  ${description}`
+                                : description;
+                        }
+                    })
+            );
+            if (this.items !== items) {
+                // We've moved on to another listing
+                return;
+            }
+            const active = this.current.activeItems;
+            this.current.items = [...this.current.items];
+            this.current.activeItems = active;
+        }
+    }
+
+    /**
+     * Mark the items with their git status, and if only changed files are wanted, leave out
+     * the rest.
+     */
+    async addGitStatus(items: FileItem[]): Promise<FileItem[]> {
+        const statuses = await gitStatuses(this.path);
+        return items.filter((item) => {
+            const isFolder =
+                item.fileType !== undefined &&
+                (item.fileType & FileType.Directory) === FileType.Directory;
+            const status = statusOf(statuses, this.path.append(item.name), isFolder);
+            if (status !== undefined) {
+                item.description = item.description ? `${status}  ${item.description}` : status;
+            }
+            return status !== undefined || !this.changedOnly;
+        });
+    }
+
+    toggleChangedOnly() {
+        if (this.inActions || this.inTrash) {
+            return;
+        }
+        this.changedOnly = !this.changedOnly;
+        this.file = this.activeItem().map((item) => item.name);
+        vscode.window.setStatusBarMessage(
+            this.changedOnly ? "Showing changed files only" : "Showing all files",
+            3000
+        );
+        this.update();
+    }
+
+    /**
+     * Leave out the files which don't match `filter`, but keep the folders so that the user
+     * can go on looking for them elsewhere, and say so when no files are left.
+     */
+    applyFileFilter(items: FileItem[], filter: string): FileItem[] {
+        const matches = globFilter(filter);
+        const isFolder = (item: FileItem) =>
+            item.fileType !== undefined &&
+            (item.fileType & FileType.Directory) === FileType.Directory;
+        const filtered = items.filter((item) => isFolder(item) || matches(item.name));
+        if (!filtered.some((item) => !isFolder(item))) {
+            filtered.unshift(
+                action(`$(filter) No files match ${filter}, clear the filter`, Action.ClearFilter)
+            );
+        }
+        return filtered;
+    }
+
+    /**
+     * Ask for a new file filter, starting from the one in use.
+     */
+    startFilterMode() {
+        if (this.inActions || this.inTrash) {
+            return;
+        }
+        this.inFilterMode = true;
+        vscode.commands.executeCommand("setContext", "file-browser.inFilterMode", true);
+        this.current.value = this.fileFilter || "";
+        this.current.placeholder =
+            "Filter files with globs like *.test.ts or !*.map (Enter to apply, ESC to cancel)";
+    }
+
+    exitFilterMode() {
+        this.inFilterMode = false;
+        vscode.commands.executeCommand("setContext", "file-browser.inFilterMode", false);
+        this.current.value = "";
+        this.current.placeholder = normalModePlaceholder;
+        // Prevent the tool from closing by stopping event propagation
+        this.current.show();
+    }
+
+    setFileFilter(filter: string) {
+        this.exitFilterMode();
+        this.fileFilter = filter.trim() === "" ? undefined : filter.trim();
+        this.file = this.activeItem().map((item) => item.name);
+        this.update();
+    }
+
+    clearFileFilter() {
+        if (this.fileFilter === undefined) {
+            return;
+        }
+        this.fileFilter = undefined;
+        vscode.window.setStatusBarMessage("File filter cleared", 3000);
+        this.file = this.activeItem().map((item) => item.name);
+        this.update();
+    }
+
+    /**
+     * The title for the current folder, with any settings changed for the session, and the
+     * file filter.
+     */
+    title(): string {
+        const states: [ConfigItem, string, string][] = [
+            [ConfigItem.HideDotfiles, "dotfiles hidden", "dotfiles shown"],
+            [ConfigItem.HideIgnoreFiles, "ignored files hidden", "ignored files shown"],
+            [ConfigItem.RemoveIgnoredFiles, "hidden files removed", "hidden files kept"],
+        ];
+        const changed = states
+            .filter(([item]) => sessionConfig.has(item))
+            .map(([item, on, off]) => (config(item) ? on : off));
+        if (this.fileFilter !== undefined) {
+            changed.push(`filtered by ${this.fileFilter}`);
+        }
+        const path = displayPath(this.path);
+        return changed.length > 0 ? `${path} (${changed.join(", ")})` : path;
+    }
+
+    /**
+     * Flip a setting for the session, as with `zh` for dotfiles, and list the folder again.
+     */
+    toggleSetting(key: string) {
+        const items: { [key: string]: [ConfigItem, string] } = {
+            h: [ConfigItem.HideDotfiles, "Hiding dotfiles"],
+            i: [ConfigItem.HideIgnoreFiles, "Hiding ignored files"],
+            r: [ConfigItem.RemoveIgnoredFiles, "Removing hidden files"],
+        };
+        const toggle = items[key];
+        if (toggle === undefined || this.inActions || this.inTrash) {
+            return;
+        }
+        const [item, description] = toggle;
+        const value = toggleSessionConfig(item);
+        vscode.window.setStatusBarMessage(`${description}: ${value ? "on" : "off"}`, 3000);
+        this.file = this.activeItem().map((item) => item.name);
+        this.update();
+    }
+
+    sort(): Sort {
+        return this.sortHistory[this.path.id] || defaultSort();
+    }
+
+    /**
+     * Change how the current folder is sorted, and remember it for next time.
+     */
+    changeSort(change: (sort: Sort) => Sort) {
+        if (this.inActions || this.inTrash) {
+            return;
+        }
+        const sort = change(this.sort());
+        this.sortHistory[this.path.id] = sort;
+        this.file = this.activeItem().map((item) => item.name);
+        vscode.window.setStatusBarMessage(describeSort(sort), 3000);
+        this.update();
+    }
+
+    cycleSortOrder() {
+        this.changeSort((sort) => ({ ...sort, order: nextSortOrder(sort.order) }));
+    }
+
+    toggleSortReverse() {
+        this.changeSort((sort) => ({ ...sort, reverse: !sort.reverse }));
+    }
+
+    toggleDirectoriesFirst() {
+        this.changeSort((sort) => ({ ...sort, directoriesFirst: !sort.directoriesFirst }));
+    }
+
+    toggleMetadata() {
+        if (this.inActions || this.inTrash) {
+            return;
+        }
+        this.showMetadata = !this.showMetadata;
+        this.file = this.activeItem().map((item) => item.name);
+        this.update();
+    }
+
+    toggleTreeMode() {
+        if (this.inActions || this.inTrash) {
+            return;
+        }
+        this.inTreeMode = !this.inTreeMode;
+        // Nested items don't exist outside tree mode, so fall back to their top level folder
+        this.file = this.activeItem().map((item) => item.name.split("/")[0]);
+        vscode.window.setStatusBarMessage(
+            this.inTreeMode ? "Tree mode on" : "Tree mode off",
+            3000
+        );
+        this.update();
+    }
+
+    isExpanded(item: FileItem): boolean {
+        return (
+            item.fileType !== undefined &&
+            (item.fileType & FileType.Directory) === FileType.Directory &&
+            this.expanded.has(this.path.append(item.name).id)
+        );
+    }
+
+    /**
+     * Collapse the folder `item`, if it's expanded, or else the folder it's listed under.
+     * Returns false if there was nothing to collapse.
+     */
+    collapse(item: FileItem): boolean {
+        if (this.isExpanded(item)) {
+            this.setExpanded(item, false);
+            return true;
+        }
+        if (item.parent !== undefined) {
+            this.setExpanded(item.parent, false);
+            return true;
+        }
+        return false;
+    }
+
+    /**
+     * Expand or collapse a folder in tree mode, leaving it as the active item.
+     */
+    async setExpanded(item: FileItem, expanded: boolean) {
+        const id = this.path.append(item.name).id;
+        if (expanded) {
+            this.expanded.add(id);
+        } else {
+            this.expanded.delete(id);
+        }
+        this.file = Some(item.name);
+        await this.update();
+    }
+
+    onDidChangeActive(items: readonly FileItem[]) {
+        const item = items[0];
+        if (
+            !this.previewing ||
+            this.inActions ||
+            item === undefined ||
+            item.action !== undefined ||
+            item.fileType === undefined
+        ) {
+            return;
+        }
+        const isFolder = (item.fileType & FileType.Directory) === FileType.Directory;
+        this.preview.show(this.path.append(item.name).uri, isFolder);
+    }
+
+    togglePreview() {
+        this.previewing = !this.previewing;
+        this.current.ignoreFocusOut = this.previewing;
+        if (this.previewing) {
+            this.onDidChangeActive(this.current.activeItems);
+        } else {
+            this.preview.close();
+        }
+        vscode.window.setStatusBarMessage(this.previewing ? "Preview on" : "Preview off", 3000);
+    }
+
     onDidChangeValue(value: string, isAutoComplete = false) {
         if (this.inActions) {
             return;
         }
 
         // In normal mode, prevent typing unless in rename, search, or create mode
-        if (!this.inSearchMode && !this.inRenameMode && !this.inCreateMode) {
+        if (!this.inSearchMode && !this.inRenameMode && !this.inCreateMode && !this.inFilterMode) {
             // Reset the value to empty if the user tries to type
             if (value !== "") {
                 this.current.value = "";
+                // ...unless it's the key a command like `m` is waiting for, or a count
+                const key = value[value.length - 1];
+                if (this.pendingKey !== undefined) {
+                    this.completePendingKey(key);
+                } else if (/[1-9]/.test(key) || (key === "0" && this.count !== "")) {
+                    this.count += key;
+                    vscode.window.setStatusBarMessage(this.count, 3000);
+                }
             }
             return;
         }
 
+        // The filter is only applied once it's been entered
+        if (this.inFilterMode) {
+            return;
+        }
+
         // In visual mode, prevent typing unless in rename or create mode
         if (this.inVisualMode && !this.inRenameMode && !this.inCreateMode) {
             // Reset the value to empty if the user tries to type
@@ -206,6 +692,11 @@ class FileBrowser {
             this.autoCompletion = undefined;
         }
 
+        if (this.inRenameMode && this.batchRenameItems.length > 0) {
+            this.showBatchRenamePreview(value);
+            return;
+        }
+
         const existingItem = this.items.find((item) => item.name === value);
         if (value === "") {
             this.current.items = this.items;
@@ -214,10 +705,12 @@ class FileBrowser {
             this.current.items = this.items;
             this.current.activeItems = [existingItem];
         } else {
-            endsWithPathSeparator(value).match(
+            // In create mode, a trailing path separator means a new folder, not navigation
+            const folder: Option<string> = this.inCreateMode ? None : endsWithPathSeparator(value);
+            folder.match(
                 (path) => {
                     if (path === "~") {
-                        this.stepIntoFolder(Path.fromFilePath(OS.homedir()));
+                        this.stepIntoFolder(Path.home(this.path));
                     } else if (path === "..") {
                         this.stepOut();
                     } else {
@@ -227,9 +720,7 @@ class FileBrowser {
                 () => {
                     // Filter items based on search input
                     if (this.inSearchMode || this.inRenameMode || this.inCreateMode) {
-                        const filtered = this.items.filter((item) =>
-                            item.name.toLowerCase().includes(value.toLowerCase())
-                        );
+                        const filtered = this.searchItems(value);
                         this.current.items = filtered;
                         if (filtered.length > 0) {
                             this.current.activeItems = [filtered[0]];
@@ -237,7 +728,7 @@ class FileBrowser {
                             const newItem = {
                                 label: `$(new-file) ${value}`,
                                 name: value,
-                                description: "Open as new file",
+                                description: "Create new file",
                                 alwaysShow: true,
                                 action: Action.NewFile,
                             };
@@ -248,7 +739,7 @@ class FileBrowser {
                         const newItem = {
                             label: `$(new-file) ${value}`,
                             name: value,
-                            description: "Open as new file",
+                            description: "Create new file",
                             alwaysShow: true,
                             action: Action.NewFile,
                         };
@@ -275,8 +766,10 @@ class FileBrowser {
     }
 
     async stepIntoFolder(folder: Path) {
-        if (!this.path.equals(folder)) {
+        if (!this.path.equals(folder) || this.inTrash) {
+            this.inTrash = false;
             this.path = folder;
+            frecency.visit(folder);
             this.file = this.pathHistory[this.path.id] || None;
             await this.update();
         }
@@ -288,11 +781,14 @@ class FileBrowser {
                 this.runAction(item);
             } else if (item.fileType !== undefined) {
                 if ((item.fileType & FileType.Directory) === FileType.Directory) {
-                    await this.stepIntoFolder(this.path.append(item.name));
+                    if (this.inTreeMode && !this.isExpanded(item)) {
+                        await this.setExpanded(item, true);
+                    } else {
+                        await this.stepIntoFolder(this.path.append(item.name));
+                    }
                 } else if ((item.fileType & FileType.File) === FileType.File) {
-                    this.path.push(item.name);
+                    this.enterActions(item.name);
                     this.file = None;
-                    this.inActions = true;
                     await this.update();
                 }
             }
@@ -300,7 +796,22 @@ class FileBrowser {
     }
 
     async stepOut() {
-        this.inActions = false;
+        if (this.inTreeMode && !this.inActions && !this.inTrash) {
+            if (this.activeItem().map((item) => this.collapse(item)).getOr(false)) {
+                return;
+            }
+        }
+        if (this.inActions) {
+            this.file = this.leaveActions();
+            await this.update();
+            return;
+        }
+        if (this.inTrash) {
+            // Stepping out of the trash takes us back to where we were
+            this.inTrash = false;
+            await this.update();
+            return;
+        }
         if (!this.path.atTop()) {
             this.pathHistory[this.path.id] = this.activeItem().map((item) => item.name);
             this.file = this.path.pop();
@@ -309,26 +820,65 @@ class FileBrowser {
     }
 
     async actions() {
-        if (this.inActions) {
+        if (this.inActions || this.inTrash) {
             return;
         }
         await this.activeItem().match(
             async (item) => {
-                this.inActions = true;
-                this.path.push(item.name);
+                this.enterActions(item.name);
                 this.file = None;
                 await this.update();
             },
             async () => {
                 this.inActions = true;
+                this.actionsFrom = None;
                 this.file = None;
                 await this.update();
             }
         );
     }
 
+    /**
+     * Show the actions for the item `name` in the current folder, which in tree mode may
+     * be nested, as `sub/file`.
+     */
+    enterActions(name: string) {
+        this.inActions = true;
+        this.actionsFrom = Some(this.path.clone());
+        this.path.push(name);
+    }
+
+    /**
+     * Go back from the actions to the folder they were opened from, and return the name
+     * of the item they were for. Without an item, that's the folder itself, and we go up
+     * to the folder it's in.
+     */
+    leaveActions(): Option<string> {
+        this.inActions = false;
+        const name = this.actionsFrom.match(
+            (folder) => {
+                const name = this.path.relativeTo(folder.uri);
+                this.path = folder;
+                return name;
+            },
+            () => this.path.pop()
+        );
+        this.actionsFrom = None;
+        return name;
+    }
+
+    /**
+     * Fuzzy match the items against `value`, best match first.
+     *
+     * The quick pick moves the items its own filter matches ahead of the rest, so they may
+     * not be shown in this order, but the first one is the one to make active.
+     */
+    searchItems(value: string): FileItem[] {
+        return fuzzyFilter(this.items, value, (item) => item.name).map(([item]) => item);
+    }
+
     tabCompletion(tabNext: boolean) {
-        if (this.inActions) {
+        if (this.inActions || this.inFilterMode) {
             return;
         }
 
@@ -337,8 +887,8 @@ class FileBrowser {
             const step = tabNext ? 1 : -1;
             this.autoCompletion.index = (this.autoCompletion.index + length + step) % length;
         } else {
-            const items = this.items.filter((i) =>
-                i.name.toLowerCase().startsWith(this.current.value.toLowerCase())
+            const items = fuzzyFilter(this.items, this.current.value, (item) => item.name).map(
+                ([item]) => item
             );
             this.autoCompletion = {
                 index: tabNext ? 0 : items.length - 1,
@@ -362,15 +912,27 @@ class FileBrowser {
 
     onDidAccept() {
         this.autoCompletion = undefined;
+
+        if (this.inFilterMode) {
+            this.setFileFilter(this.current.value);
+            return;
+        }
         
-        // If in create mode, create the new file
+        // If in create mode, create the new files and folders
         if (this.inCreateMode && this.current.value !== "") {
-            const newFileName = this.current.value;
+            const pattern = this.current.value;
             this.inCreateMode = false;
-            this.openFile(this.path.append(newFileName).uri.with({ scheme: "untitled" }));
+            vscode.commands.executeCommand("setContext", "file-browser.inCreateMode", false);
+            this.create(pattern);
             return;
         }
         
+        // If renaming several files, rename them all according to the pattern
+        if (this.inRenameMode && this.batchRenameItems.length > 0) {
+            this.applyBatchRename(this.current.value);
+            return;
+        }
+
         // If in rename mode, handle the rename
         if (this.inRenameMode && this.current.value !== "") {
             const oldName = this.file.getOrElse(() => "");
@@ -384,8 +946,9 @@ class FileBrowser {
                 const oldUri = this.path.append(oldName).uri;
                 const newUri = this.path.append(newName).uri;
                 
-                vscode.workspace.fs.rename(oldUri, newUri).then(
-                    () => {
+                const move = { kind: OperationKind.Move, from: oldUri, to: newUri };
+                journal.run(`rename of "${oldName}"`, [move]).then((failed) => {
+                    if (failed.length === 0) {
                         // Reset state and update the file browser
                         this.inRenameMode = false;
                         this.inVisualMode = false;
@@ -393,14 +956,13 @@ class FileBrowser {
                         this.show();
                         this.keepAlive = false;
                         this.update();
-                    },
-                    (error) => {
+                    } else {
                         vscode.window.showErrorMessage(`Failed to rename "${oldName}" to "${newName}"`);
                         this.inRenameMode = false;
                         this.show();
                         this.keepAlive = false;
                     }
-                );
+                });
             } else {
                 this.inRenameMode = false;
             }
@@ -436,19 +998,28 @@ class FileBrowser {
     }
 
     openFile(uri: Uri, column: ViewColumn = ViewColumn.Active) {
+        this.preview.keep();
         this.dispose();
+        if (uri.scheme !== directoryBufferScheme) {
+            frecency.visit(new Path(uri).parent());
+        }
+        // Opening a file that's being previewed keeps it open
+        const options: vscode.TextDocumentShowOptions = this.previewing
+            ? { viewColumn: column, preview: false }
+            : { viewColumn: column };
         vscode.workspace
             .openTextDocument(uri)
-            .then((doc) => vscode.window.showTextDocument(doc, column));
+            .then((doc) => vscode.window.showTextDocument(doc, options));
     }
 
     async rename() {
         const uri = this.path.uri;
         const stat = await vscode.workspace.fs.stat(uri);
         const isDir = (stat.type & FileType.Directory) === FileType.Directory;
-        const fileName = this.path.pop().getOrElse(() => {
+        const name = this.leaveActions().getOrElse(() => {
             throw new Error("Can't rename an empty file name!");
         });
+        const fileName = OSPath.posix.basename(name);
         const fileType = isDir ? "folder" : "file";
         const workspaceFolder = this.path.getWorkspaceFolder().map((wsf) => wsf.uri);
         const relPath = workspaceFolder
@@ -462,14 +1033,18 @@ class FileBrowser {
             value: relPath,
             valueSelection: [startSelection, endSelection],
         });
-        this.file = Some(fileName);
+        this.file = Some(name);
         if (result !== undefined) {
             const newUri = workspaceFolder.match(
                 (workspaceFolder) => Uri.joinPath(workspaceFolder, result),
                 () => Uri.joinPath(this.path.uri, result)
             );
-            if ((await Result.await(vscode.workspace.fs.rename(uri, newUri))).isOk()) {
-                this.file = Some(OSPath.basename(result));
+            const move = { kind: OperationKind.Move, from: uri, to: newUri };
+            const failed = await journal.run(`rename of "${fileName}"`, [move]);
+            if (failed.length === 0) {
+                // In tree mode, the file may have been renamed into a folder further down
+                const renamed = new Path(newUri).relativeTo(this.path.uri).getOr("..");
+                this.file = Some(renamed.startsWith("..") ? OSPath.basename(result) : renamed);
             } else {
                 vscode.window.showErrorMessage(`Failed to rename ${fileType} "${fileName}"`);
             }
@@ -479,13 +1054,20 @@ class FileBrowser {
     async runAction(item: FileItem) {
         switch (item.action) {
             case Action.NewFolder: {
-                await vscode.workspace.fs.createDirectory(this.path.uri);
+                const created = await Result.await(
+                    vscode.workspace.fs.createDirectory(this.path.uri)
+                );
+                forgetPath(this.path.uri);
+                if (created.isOk()) {
+                    journal.record("folder creation", [journal.created(this.path.uri)]);
+                } else {
+                    vscode.window.showErrorMessage(`Failed to create folder "${this.path.fsPath}"`);
+                }
                 await this.update();
                 break;
             }
             case Action.NewFile: {
-                const uri = this.path.append(item.name).uri;
-                this.openFile(uri.with({ scheme: "untitled" }));
+                await this.create(item.name);
                 break;
             }
             case Action.OpenFile: {
@@ -520,17 +1102,19 @@ class FileBrowser {
                 const uri = this.path.uri;
                 const stat = await vscode.workspace.fs.stat(uri);
                 const isDir = (stat.type & FileType.Directory) === FileType.Directory;
-                const fileName = this.path.pop().getOrElse(() => {
-                    throw new Error("Can't delete an empty file name!");
-                });
+                const fileName = this.leaveActions()
+                    .map((name) => OSPath.posix.basename(name))
+                    .getOrElse(() => {
+                        throw new Error("Can't delete an empty file name!");
+                    });
                 const fileType = isDir ? "folder" : "file";
-                const goAhead = `$(trash) Delete the ${fileType} "${fileName}"`;
+                const goAhead = `${deleteLabel()} the ${fileType} "${fileName}"`;
                 const result = await vscode.window.showQuickPick(["$(close) Cancel", goAhead], {});
                 if (result === goAhead) {
-                    const delOp = await Result.await(
-                        vscode.workspace.fs.delete(uri, { recursive: isDir })
-                    );
-                    if (delOp.isErr()) {
+                    const failed = await journal.run(`deletion of "${fileName}"`, [
+                        journal.delete(uri),
+                    ]);
+                    if (failed.length > 0) {
                         vscode.window.showErrorMessage(
                             `Failed to delete ${fileType} "${fileName}"`
                         );
@@ -550,6 +1134,39 @@ class FileBrowser {
                 vscode.commands.executeCommand("vscode.openFolder", this.path.uri, true);
                 break;
             }
+            case Action.RestoreFromTrash: {
+                const entry = item.target && trash.find(item.target);
+                if (entry !== undefined) {
+                    const failed = await journal.run(`restore of "${item.name}"`, [
+                        journal.restore(entry.staged, entry.original),
+                    ]);
+                    if (failed.length > 0) {
+                        vscode.window.showErrorMessage(
+                            `Failed to restore "${item.name}" to "${entry.original.fsPath}"`
+                        );
+                    }
+                }
+                await this.update();
+                break;
+            }
+            case Action.EmptyTrash: {
+                this.keepAlive = true;
+                this.hide();
+                const goAhead = "$(close-all) Permanently delete everything in the trash";
+                const result = await vscode.window.showQuickPick(["$(close) Cancel", goAhead], {});
+                if (result === goAhead) {
+                    await trash.empty();
+                    // Deletes can't be undone without the trash
+                    journal.forgetTrashed();
+                }
+                this.show();
+                this.keepAlive = false;
+                await this.update();
+                break;
+            }
+            case Action.ClearFilter:
+                this.clearFileFilter();
+                break;
             default:
                 throw new Error(`Unhandled action ${item.action}`);
         }
@@ -570,7 +1187,7 @@ class FileBrowser {
             // Clear the search and reset the items
             this.current.value = "";
             this.current.items = this.items;
-            this.current.placeholder = "NORMAL mode (h,j,k,l to navigate | i for search | r to rename | d to delete | c for new file)";
+            this.current.placeholder = normalModePlaceholder;
         } else {
             this.current.placeholder = "INSERT mode (ESC to exit)";
         }
@@ -605,7 +1222,7 @@ class FileBrowser {
                 const activeItem = this.current.activeItems[0];
                 this.visualSelectionStart = this.current.items.indexOf(activeItem);
                 this.selectedItems = [activeItem];
-                this.current.placeholder = "VISUAL mode (ESC to exit, j/k to select, r to rename, d to delete)";
+                this.current.placeholder = visualModePlaceholder;
             } else {
                 // Can't enter visual mode without an active item
                 this.inVisualMode = false;
@@ -616,7 +1233,7 @@ class FileBrowser {
             this.visualSelectionStart = -1;
             this.selectedItems = [];
             if (!this.inSearchMode && !this.inRenameMode && !this.inCreateMode) {
-                this.current.placeholder = "NORMAL mode (h,j,k,l to navigate | i for search | r to rename | d to delete | c for new file)";
+                this.current.placeholder = normalModePlaceholder;
             }
         }
         
@@ -625,6 +1242,9 @@ class FileBrowser {
     }
 
     toggleVisualMode() {
+        if (this.inTrash) {
+            return;
+        }
         this.setVisualMode(!this.inVisualMode);
     }
 
@@ -677,58 +1297,130 @@ class FileBrowser {
         this.current.items = [...items];
     }
 
-    moveDown() {
-        if (this.inActions || this.inSearchMode) {
-            return;
-        }
+    /**
+     * Use up the count typed before a motion, or `fallback` if there wasn't one.
+     */
+    takeCount(fallback = 1): number {
+        const count = this.count === "" ? fallback : parseInt(this.count, 10);
+        this.count = "";
+        return count;
+    }
 
+    activeIndex(): number {
+        const active = this.current.activeItems[0];
+        return active === undefined ? -1 : this.current.items.indexOf(active);
+    }
+
+    /**
+     * Make the item at `index` active, as near as there is one, extending the selection in
+     * visual mode.
+     */
+    moveTo(index: number) {
         const items = this.current.items;
         if (items.length === 0) {
             return;
         }
-
-        let index = -1;
-        if (this.current.activeItems.length > 0) {
-            index = items.indexOf(this.current.activeItems[0]);
-        }
-
-        index = (index + 1) % items.length;
+        index = Math.max(0, Math.min(items.length - 1, index));
         this.current.activeItems = [items[index]];
-        
+
         // Update visual selection if in visual mode
         if (this.inVisualMode) {
             this.updateVisualSelection();
         }
     }
 
-    moveUp() {
+    canMove(): boolean {
         if (this.inActions || this.inSearchMode) {
-            return;
+            this.count = "";
+            return false;
+        }
+        return true;
+    }
+
+    moveDown() {
+        if (this.canMove()) {
+            this.moveTo(this.activeIndex() + this.takeCount());
+        }
+    }
+
+    moveUp() {
+        if (this.canMove()) {
+            const index = this.activeIndex();
+            this.moveTo((index < 0 ? 0 : index) - this.takeCount());
+        }
+    }
+
+    halfPageDown() {
+        if (this.canMove()) {
+            this.moveTo(this.activeIndex() + this.takeCount() * halfPage);
+        }
+    }
+
+    halfPageUp() {
+        if (this.canMove()) {
+            this.moveTo(this.activeIndex() - this.takeCount() * halfPage);
+        }
+    }
+
+    /**
+     * Go to the first item, or with a count, to that item, as with `gg`.
+     */
+    moveToTop() {
+        if (this.canMove()) {
+            this.moveTo(this.takeCount() - 1);
+        }
+    }
+
+    /**
+     * Go to the last item, or with a count, to that item, as with `G`.
+     */
+    moveToBottom() {
+        if (this.canMove()) {
+            this.moveTo(this.takeCount(this.current.items.length) - 1);
         }
+    }
 
+    /**
+     * Go to the next item whose name starts with `char`, or with a count, to the one that
+     * many matches on. The search wraps around to the top.
+     */
+    findChar(char: string) {
+        if (!this.canMove()) {
+            return;
+        }
+        this.lastFind = char;
         const items = this.current.items;
-        if (items.length === 0) {
+        const matches = (item: FileItem) => item.name.toLowerCase().startsWith(char.toLowerCase());
+        if (!items.some(matches)) {
+            this.count = "";
+            vscode.window.setStatusBarMessage(`No item starting with "${char}"`, 3000);
             return;
         }
-
-        let index = 0;
-        if (this.current.activeItems.length > 0) {
-            index = items.indexOf(this.current.activeItems[0]);
+        let index = this.activeIndex();
+        for (let count = this.takeCount(); count > 0; count--) {
+            do {
+                index = (index + 1) % items.length;
+            } while (!matches(items[index]));
         }
+        this.moveTo(index);
+    }
 
-        index = (index - 1 + items.length) % items.length;
-        this.current.activeItems = [items[index]];
-        
-        // Update visual selection if in visual mode
-        if (this.inVisualMode) {
-            this.updateVisualSelection();
+    repeatFind() {
+        if (this.lastFind === undefined) {
+            this.count = "";
+        } else {
+            this.findChar(this.lastFind);
         }
     }
 
     // Add new methods for renaming and deleting in visual mode
     async renameInVisualMode() {
-        if (!this.inVisualMode || this.selectedItems.length !== 1) {
-            // Only allow renaming one item at a time
+        if (!this.inVisualMode || this.selectedItems.length === 0) {
+            return;
+        }
+
+        if (this.selectedItems.length > 1) {
+            this.startBatchRename();
             return;
         }
 
@@ -778,24 +1470,25 @@ class FileBrowser {
         const itemType = isMultiple ? "items" : 
             ((validItems[0].fileType! & FileType.Directory) === FileType.Directory ? "folder" : "file");
         
-        const goAhead = `$(trash) Delete ${isMultiple ? 'these' : 'the'} ${itemType} "${itemNames}"`;
+        const these = isMultiple ? "these" : "the";
+        const goAhead = `${deleteLabel()} ${these} ${itemType} "${itemNames}"`;
         const result = await vscode.window.showQuickPick(["$(close) Cancel", goAhead], {});
         
         if (result === goAhead) {
-            // Delete each item one by one
-            for (const item of validItems) {
-                const itemPath = this.path.append(item.name);
+            // Delete all the items as a single undo step
+            const label = isMultiple
+                ? `deletion of ${validItems.length} items`
+                : `deletion of "${itemNames}"`;
+            const operations = validItems.map((item) =>
+                journal.delete(this.path.append(item.name).uri)
+            );
+            const failed = await journal.run(label, operations);
+            for (const operation of failed) {
+                const item = validItems[operations.indexOf(operation)];
                 const isDir = (item.fileType! & FileType.Directory) === FileType.Directory;
-                
-                const delOp = await Result.await(
-                    vscode.workspace.fs.delete(itemPath.uri, { recursive: isDir })
+                vscode.window.showErrorMessage(
+                    `Failed to delete ${isDir ? 'folder' : 'file'} "${item.name}"`
                 );
-                
-                if (delOp.isErr()) {
-                    vscode.window.showErrorMessage(
-                        `Failed to delete ${isDir ? 'folder' : 'file'} "${item.name}"`
-                    );
-                }
             }
         }
         
@@ -805,6 +1498,10 @@ class FileBrowser {
     }
 
     async createNewFile() {
+        if (this.inTrash) {
+            return;
+        }
+
         // Exit any other modes
         this.inVisualMode = false;
         this.inSearchMode = false;
@@ -816,7 +1513,7 @@ class FileBrowser {
         
         // Clear current selection and input
         this.current.value = "";
-        this.current.placeholder = "Enter new file name (ESC to cancel)";
+        this.current.placeholder = "Enter new file name, path/to/file, folder/ or {a,b}.ts (ESC to cancel)";
         
         // Focus the input field
         this.current.show();
@@ -824,9 +1521,13 @@ class FileBrowser {
 
     exitRenameMode() {
         this.inRenameMode = false;
+        if (this.batchRenameItems.length > 0) {
+            this.batchRenameItems = [];
+            this.current.items = this.items;
+        }
         vscode.commands.executeCommand("setContext", "file-browser.inRenameMode", false);
         this.current.value = "";
-        this.current.placeholder = "NORMAL mode (h,j,k,l to navigate | i for search | r to rename | d to delete | c for new file)";
+        this.current.placeholder = normalModePlaceholder;
         // Prevent the tool from closing by stopping event propagation
         this.current.show();
     }
@@ -835,14 +1536,20 @@ class FileBrowser {
         this.inCreateMode = false;
         vscode.commands.executeCommand("setContext", "file-browser.inCreateMode", false);
         this.current.value = "";
-        this.current.placeholder = "NORMAL mode (h,j,k,l to navigate | i for search | r to rename | d to delete | c for new file)";
+        this.current.placeholder = normalModePlaceholder;
         // Prevent the tool from closing by stopping event propagation
         this.current.show();
     }
 
     // Rename file in normal mode
     async renameFile() {
-        if (this.inVisualMode || this.inSearchMode || this.inRenameMode || this.inCreateMode) {
+        if (
+            this.inVisualMode ||
+            this.inSearchMode ||
+            this.inRenameMode ||
+            this.inCreateMode ||
+            this.inTrash
+        ) {
             return;
         }
         
@@ -874,7 +1581,13 @@ class FileBrowser {
     
     // Delete file in normal mode
     async deleteFile() {
-        if (this.inVisualMode || this.inSearchMode || this.inRenameMode || this.inCreateMode) {
+        if (
+            this.inVisualMode ||
+            this.inSearchMode ||
+            this.inRenameMode ||
+            this.inCreateMode ||
+            this.inTrash
+        ) {
             return;
         }
         
@@ -896,17 +1609,17 @@ class FileBrowser {
         const isDir = (item.fileType & FileType.Directory) === FileType.Directory;
         const itemType = isDir ? "folder" : "file";
         
-        const goAhead = `$(trash) Delete the ${itemType} "${item.name}"`;
+        const goAhead = `${deleteLabel()} the ${itemType} "${item.name}"`;
         const result = await vscode.window.showQuickPick(["$(close) Cancel", goAhead], {});
         
         if (result === goAhead) {
             const itemPath = this.path.append(item.name);
             
-            const delOp = await Result.await(
-                vscode.workspace.fs.delete(itemPath.uri, { recursive: isDir })
-            );
+            const failed = await journal.run(`deletion of "${item.name}"`, [
+                journal.delete(itemPath.uri),
+            ]);
             
-            if (delOp.isErr()) {
+            if (failed.length > 0) {
                 vscode.window.showErrorMessage(
                     `Failed to delete ${itemType} "${item.name}"`
                 );
@@ -917,6 +1630,490 @@ class FileBrowser {
         this.keepAlive = false;
         this.update();
     }
+
+    // The items a yank or cut applies to: the visual selection, or the active item
+    operandItems(): FileItem[] {
+        const items = this.inVisualMode ? this.selectedItems : this.current.activeItems;
+        return items.filter((item) => item.fileType !== undefined);
+    }
+
+    yank() {
+        this.fillRegister(RegisterMode.Yank);
+    }
+
+    cut() {
+        this.fillRegister(RegisterMode.Cut);
+    }
+
+    fillRegister(mode: RegisterMode) {
+        if (this.inActions || this.inTrash) {
+            return;
+        }
+        const items = this.operandItems();
+        if (items.length === 0) {
+            return;
+        }
+        register.set(mode, items.map((item) => this.path.append(item.name).uri));
+        if (this.inVisualMode) {
+            this.setVisualMode(false);
+        }
+        const verb = mode === RegisterMode.Yank ? "Yanked" : "Cut";
+        const count = items.length === 1 ? `"${items[0].name}"` : `${items.length} items`;
+        vscode.window.setStatusBarMessage(`${verb} ${count}`, 3000);
+    }
+
+    async paste() {
+        if (this.inActions || this.inTrash || register.isEmpty) {
+            return;
+        }
+        if (this.inVisualMode) {
+            this.setVisualMode(false);
+        }
+        const mode = register.mode;
+        const transfers = await register.transfers(this.path);
+        const kind = mode === RegisterMode.Cut ? OperationKind.Move : OperationKind.Copy;
+        const operations: Operation[] = transfers.map(({ from, to }) => ({ kind, from, to }));
+        const failed = await journal.run(
+            `paste of ${operations.length === 1 ? "1 item" : `${operations.length} items`}`,
+            operations
+        );
+        for (const operation of failed) {
+            vscode.window.showErrorMessage(
+                `Failed to paste "${OSPath.basename(operation.from.fsPath)}"`
+            );
+        }
+        const done = operations.length - failed.length;
+        if (mode === RegisterMode.Cut) {
+            // Moved files aren't where the register says they are anymore, but the ones
+            // which failed to move are, and can be pasted again
+            register.set(mode, failed.map((operation) => operation.from));
+        }
+        if (done > 0) {
+            vscode.window.setStatusBarMessage(describeTransfer(mode, done), 3000);
+            const succeeded = operations.filter((operation) => !failed.includes(operation));
+            const last = succeeded[succeeded.length - 1];
+            this.file = Some(OSPath.basename(last.to.fsPath));
+        }
+        await this.update();
+    }
+
+    async undo() {
+        if (this.inActions) {
+            return;
+        }
+        const undone = await Result.await(journal.undo());
+        undone.match(
+            (label) =>
+                vscode.window.setStatusBarMessage(
+                    label === undefined ? "Nothing to undo" : `Undid ${label}`,
+                    3000
+                ),
+            () => vscode.window.showErrorMessage("Failed to undo the last operation")
+        );
+        await this.update();
+    }
+
+    async redo() {
+        if (this.inActions) {
+            return;
+        }
+        const redone = await Result.await(journal.redo());
+        redone.match(
+            (label) =>
+                vscode.window.setStatusBarMessage(
+                    label === undefined ? "Nothing to redo" : `Redid ${label}`,
+                    3000
+                ),
+            () => vscode.window.showErrorMessage("Failed to redo the last undone operation")
+        );
+        await this.update();
+    }
+
+    async startBatchRename() {
+        // Skip special items like "New file"
+        const items = this.selectedItems.filter((item) => item.fileType !== undefined);
+        if (items.length === 0) {
+            return;
+        }
+        this.batchRenameExisting = await this.existingNames();
+        this.inRenameMode = true;
+        vscode.commands.executeCommand("setContext", "file-browser.inRenameMode", true);
+        this.batchRenameItems = items;
+        this.current.value = "";
+        this.current.placeholder =
+            "Rename with /find/replace/ or a template like img_{n:03}{ext} (Enter to confirm, ESC to cancel)";
+        this.showBatchRenamePreview("");
+        this.current.show();
+    }
+
+    /**
+     * Read the names of everything in the current folder, as hidden files can get in the
+     * way of a rename too.
+     */
+    async existingNames(): Promise<string[]> {
+        const records = await Result.await(vscode.workspace.fs.readDirectory(this.path.uri));
+        return records.isOk() ? records.unwrap().map(([name]) => name) : [];
+    }
+
+    batchRenamePreview(pattern: string): Result<RenamePreview[], Error> {
+        const names = this.batchRenameItems.map((item) => item.name);
+        try {
+            return Ok(previewBatchRename(pattern, names, this.batchRenameExisting));
+        } catch (error) {
+            return Err(error as Error);
+        }
+    }
+
+    showBatchRenamePreview(pattern: string) {
+        const items: FileItem[] = this.batchRenamePreview(pattern).match(
+            (previews) =>
+                previews.map(({ from, to, problem }) => ({
+                    label: from === to ? `$(dash) ${from}` : `$(arrow-right) ${from} → ${to}`,
+                    name: from,
+                    description: problem && `$(warning) ${problem}`,
+                    alwaysShow: true,
+                })),
+            (error) => [
+                {
+                    label: `$(error) ${error.message}`,
+                    name: "",
+                    alwaysShow: true,
+                },
+            ]
+        );
+        this.current.items = items;
+    }
+
+    async applyBatchRename(pattern: string) {
+        // The folder may have changed while the pattern was being typed
+        this.batchRenameExisting = await this.existingNames();
+        const previews = this.batchRenamePreview(pattern);
+        if (previews.isErr()) {
+            return;
+        }
+        const renames = previews.unwrap();
+        if (renames.some((preview) => preview.problem !== undefined)) {
+            vscode.window.showErrorMessage("Can't rename: some of the new names conflict");
+            return;
+        }
+
+        const transaction = journal.begin(`rename of ${renames.length} items`);
+        const failed = await transaction.renameAll(
+            this.path.uri,
+            renames
+                .filter(({ from, to }) => from !== to)
+                .map(({ from, to }): [string, string] => [from, to]),
+            new Set(this.batchRenameExisting)
+        );
+        transaction.commit();
+        for (const failure of failed) {
+            vscode.window.showErrorMessage(`Failed to rename ${describeRenameFailure(failure)}`);
+        }
+
+        this.batchRenameItems = [];
+        this.inRenameMode = false;
+        vscode.commands.executeCommand("setContext", "file-browser.inRenameMode", false);
+        this.setVisualMode(false);
+        this.file = None;
+        await this.update();
+    }
+
+    /**
+     * Create the files and folders described by `pattern`, which can be a path relative to
+     * the current folder, end in `/` to create a folder, and contain brace groups to create
+     * several at once. If it names a single file, open it.
+     */
+    async create(pattern: string) {
+        let names: string[];
+        try {
+            names = expandBraces(pattern);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Can't create files: ${(error as Error).message}`);
+            this.current.placeholder = normalModePlaceholder;
+            return;
+        }
+        if (names.length > confirmCreateCount) {
+            const goAhead = `Create ${names.length} files and folders`;
+            const answer = await vscode.window.showWarningMessage(
+                `"${pattern}" makes ${names.length} names. Create them all?`,
+                { modal: true },
+                goAhead
+            );
+            if (answer !== goAhead) {
+                this.current.placeholder = normalModePlaceholder;
+                return;
+            }
+        }
+        const transaction = journal.begin(`creation of "${pattern}"`);
+        const created = await createAll(
+            this.path,
+            names,
+            (uri) => this.templateContent(uri),
+            journal,
+            transaction
+        );
+        transaction.commit();
+        if (this.keepAlive) {
+            // We were hidden to choose a template
+            this.show();
+            this.keepAlive = false;
+        }
+        for (const entry of created.failed) {
+            vscode.window.showErrorMessage(`Failed to create "${entry}"`);
+        }
+        if (created.files.length === 1 && created.folders.length === 0) {
+            this.openFile(created.files[0]);
+            return;
+        }
+        const first = [...created.files, ...created.folders][0];
+        if (first !== undefined) {
+            // Select the first thing created, or the folder it was created in
+            this.file = new Path(first)
+                .relativeTo(this.path.uri)
+                .map((path) => path.split(/[\\/]/)[0]);
+        }
+        this.current.placeholder = normalModePlaceholder;
+        await this.update();
+    }
+
+    /**
+     * Get the initial contents for a new file from the templates which apply to it, asking
+     * which one to use if there's more than one.
+     */
+    async templateContent(uri: Uri): Promise<Uint8Array> {
+        const templates = await findTemplates(uri);
+        let template: Template | undefined = templates[0];
+        if (templates.length > 1) {
+            this.keepAlive = true;
+            this.hide();
+            template = await chooseTemplate(templates, OSPath.basename(uri.fsPath));
+        }
+        return Buffer.from(template === undefined ? "" : expandTemplate(template, uri));
+    }
+
+    /**
+     * Wait for the next key typed, to complete a two key command like `ma`.
+     */
+    awaitKey(command: string) {
+        // Motions work in the trash too, but marks don't
+        if (this.inActions || (this.inTrash && (command === "m" || command === "'"))) {
+            return;
+        }
+        this.pendingKey = command;
+        vscode.commands.executeCommand("setContext", "file-browser.awaitingKey", true);
+        this.current.value = "";
+        switch (command) {
+            case "m":
+                this.current.placeholder = "Type a letter to set a mark here (ESC to cancel)";
+                break;
+            case "'":
+                this.current.placeholder = "Type the letter of a mark to jump to (ESC to cancel)";
+                break;
+            case "f":
+                this.current.placeholder = "Type a character to jump to (ESC to cancel)";
+                break;
+            case "z":
+                this.current.placeholder =
+                    "Toggle h: dotfiles, i: ignored files, r: removing hidden files (ESC to cancel)";
+                break;
+        }
+    }
+
+    cancelPendingKey() {
+        this.pendingKey = undefined;
+        vscode.commands.executeCommand("setContext", "file-browser.awaitingKey", false);
+        this.current.placeholder = this.inVisualMode ? visualModePlaceholder : normalModePlaceholder;
+    }
+
+    completePendingKey(key: string) {
+        const command = this.pendingKey;
+        this.cancelPendingKey();
+        switch (command) {
+            case "m":
+                this.setMark(key);
+                break;
+            case "'":
+                this.jumpToMark(key);
+                break;
+            case "g":
+                if (key === "g") {
+                    this.moveToTop();
+                } else {
+                    this.count = "";
+                }
+                break;
+            case "f":
+                this.findChar(key);
+                break;
+            case "z":
+                this.toggleSetting(key);
+                break;
+        }
+    }
+
+    async setMark(name: string) {
+        if (!Marks.isMarkName(name)) {
+            vscode.window.setStatusBarMessage(`"${name}" is not a valid mark name`, 3000);
+            return;
+        }
+        await marks.set(name, this.path, this.current.activeItems[0]?.name);
+        vscode.window.setStatusBarMessage(`Mark ${name} set`, 3000);
+    }
+
+    async jumpToMark(name: string) {
+        await marks.get(name).match(
+            (mark) => this.jumpTo(markFolder(mark), Option.from(mark.file)),
+            async () => {
+                vscode.window.setStatusBarMessage(`Mark ${name} is not set`, 3000);
+            }
+        );
+    }
+
+    /**
+     * Go straight to `folder`, with `file` selected, from wherever we are.
+     */
+    async jumpTo(folder: Path, file: Option<string>) {
+        if (!this.inActions && !this.inTrash) {
+            this.pathHistory[this.path.id] = this.activeItem().map((item) => item.name);
+        }
+        this.inActions = false;
+        this.inTrash = false;
+        this.path = folder;
+        this.file = file;
+        await this.update();
+    }
+
+    async jumpBack() {
+        await this.followJump(jumpList.back(this.leavingItem()));
+    }
+
+    async jumpForward() {
+        await this.followJump(jumpList.forward(this.leavingItem()));
+    }
+
+    // The item to remember as active when leaving the current folder through the jump list
+    leavingItem(): Option<string> {
+        return this.inActions || this.inTrash ? None : this.activeItem().map((item) => item.name);
+    }
+
+    async followJump(jump: Option<Jump>) {
+        await jump.match(
+            async (jump) => {
+                this.setVisualMode(false);
+                this.inActions = false;
+                this.inTrash = false;
+                this.path = jump.folder.clone();
+                this.file = jump.file;
+                await this.update();
+            },
+            async () => undefined
+        );
+    }
+
+    /**
+     * Find a file anywhere below the current folder, and either open it or show it in the
+     * file browser.
+     */
+    async findFiles() {
+        if (this.inActions || this.inTrash) {
+            return;
+        }
+        this.keepAlive = true;
+        this.hide();
+        const choice = await Finder.pick(this.path.clone());
+        if (choice !== undefined && !choice.reveal) {
+            this.keepAlive = false;
+            this.openFile(choice.uri);
+            return;
+        }
+        this.show();
+        this.keepAlive = false;
+        if (choice !== undefined) {
+            const path = new Path(choice.uri);
+            const file = path.pop();
+            await this.jumpTo(path, file);
+        } else {
+            await this.update();
+        }
+    }
+
+    /**
+     * Jump to one of the folders visited most often and most recently.
+     */
+    async jumpToFrequent() {
+        this.keepAlive = true;
+        this.hide();
+        const folder = await pickFrequentFolder(frecency);
+        this.show();
+        this.keepAlive = false;
+        folder.match(
+            (folder) => this.jumpTo(folder, None),
+            () => this.update()
+        );
+    }
+
+    async switchRoot() {
+        this.keepAlive = true;
+        this.hide();
+        const root = await pickRoot(roots);
+        this.show();
+        this.keepAlive = false;
+        root.match(
+            (root) => this.jumpTo(root, None),
+            () => this.update()
+        );
+    }
+
+    async showBookmarks() {
+        this.keepAlive = true;
+        this.hide();
+        const mark = await pickMark();
+        this.show();
+        this.keepAlive = false;
+        if (mark !== undefined) {
+            await this.jumpTo(markFolder(mark), Option.from(mark.file));
+        }
+    }
+
+    async showTrash() {
+        if (this.inActions || this.inTrash) {
+            return;
+        }
+        this.setVisualMode(false);
+        this.setSearchMode(false);
+        this.pathHistory[this.path.id] = this.activeItem().map((item) => item.name);
+        this.file = this.pathHistory[this.path.id];
+        this.inTrash = true;
+        await this.update();
+    }
+
+    editDirectory() {
+        if (this.inActions || this.inTrash) {
+            return;
+        }
+        this.openFile(directoryBufferUri(this.path.uri));
+    }
+}
+
+/**
+ * Ask the user to pick one of the marks they've set.
+ */
+async function pickMark(): Promise<Mark | undefined> {
+    const items = marks.all().map(([name, mark]) => ({
+        label: `$(bookmark) ${name}`,
+        description: markFolder(mark).fsPath,
+        detail: mark.file,
+        mark,
+    }));
+    if (items.length === 0) {
+        vscode.window.showInformationMessage("No marks have been set yet; use m<letter> to set one");
+        return undefined;
+    }
+    const choice = await vscode.window.showQuickPick(items, {
+        placeHolder: "Jump to a mark",
+        matchOnDescription: true,
+    });
+    return choice?.mark;
 }
 
 export function activate(context: vscode.ExtensionContext) {
@@ -926,18 +2123,45 @@ export function activate(context: vscode.ExtensionContext) {
     vscode.commands.executeCommand("setContext", "file-browser.inRenameMode", false);
     vscode.commands.executeCommand("setContext", "file-browser.inCreateMode", false);
     vscode.commands.executeCommand("setContext", "inFileBrowserEscapeHandler", false);
+    vscode.commands.executeCommand("setContext", "file-browser.awaitingKey", false);
+    vscode.commands.executeCommand("setContext", "inFileBrowserFinder", false);
+
+    // Anything in the trash of a session which has ended can go, but other windows may
+    // still be using theirs
+    trash = new Trash(context.globalStorageUri, vscode.env.sessionId);
+    trash.open();
+    journal = new Journal(trash);
+    marks = new Marks(context.globalState, context.workspaceState);
+    frecency = new Frecency(context.globalState);
+    roots = new WorkspaceRoots(context.globalState);
+    roots.editorChanged(vscode.window.activeTextEditor);
+    roots.remember();
+    context.subscriptions.push(
+        vscode.window.onDidChangeActiveTextEditor((editor) => roots.editorChanged(editor))
+    );
+    context.subscriptions.push(
+        vscode.workspace.onDidChangeWorkspaceFolders(() => roots.remember())
+    );
+
+    context.subscriptions.push(
+        vscode.workspace.registerFileSystemProvider(
+            directoryBufferScheme,
+            new DirectoryBufferProvider(journal)
+        )
+    );
+    context.subscriptions.push(watchRuleFiles());
+    context.subscriptions.push(watchGitStatuses());
+    context.subscriptions.push(new vscode.Disposable(clearListings));
+    context.subscriptions.push(
+        vscode.workspace.registerTextDocumentContentProvider(
+            folderPreviewScheme,
+            new FolderPreviewProvider()
+        )
+    );
 
     context.subscriptions.push(
         vscode.commands.registerCommand("file-browser.open", () => {
-            const document = vscode.window.activeTextEditor?.document;
-            const workspaceFolder =
-                vscode.workspace.workspaceFolders && vscode.workspace.workspaceFolders[0];
-            let path = new Path(workspaceFolder?.uri || Uri.file(OS.homedir()));
-            let file: Option<string> = None;
-            if (document && !document.isUntitled) {
-                path = new Path(document.uri);
-                file = path.pop();
-            }
+            const [path, file] = startingPoint();
             active = Some(new FileBrowser(path, file));
             setContext(true);
         })
@@ -947,10 +2171,9 @@ export function activate(context: vscode.ExtensionContext) {
             active
                 .chainNone(() => {
                     const document = vscode.window.activeTextEditor?.document;
-                    const workspaceFolder =
-                        vscode.workspace.workspaceFolders && vscode.workspace.workspaceFolders[0];
+                    const workspaceFolder = roots.current().map((folder) => folder.uri);
                     const path = new Path(
-                        document?.uri || workspaceFolder?.uri || Uri.file(OS.homedir())
+                        document?.uri || workspaceFolder.getOr(Uri.file(OS.homedir()))
                     );
                     active = Some(new FileBrowser(path, None));
                     setContext(true);
@@ -960,6 +2183,65 @@ export function activate(context: vscode.ExtensionContext) {
         )
     );
 
+    context.subscriptions.push(
+        vscode.commands.registerCommand("file-browser.editDirectory", () =>
+            active.match(
+                (active) => active.editDirectory(),
+                () => {
+                    const [path] = startingPoint();
+                    vscode.workspace
+                        .openTextDocument(directoryBufferUri(path.uri))
+                        .then((doc) => vscode.window.showTextDocument(doc));
+                }
+            )
+        )
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand("file-browser.switchRoot", () =>
+            active.match(
+                (active) => active.switchRoot(),
+                async () => {
+                    const root = await pickRoot(roots);
+                    root.ifSome((root) => {
+                        active = Some(new FileBrowser(root, None));
+                        setContext(true);
+                    });
+                }
+            )
+        )
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand("file-browser.jump", () =>
+            active.match(
+                (active) => active.jumpToFrequent(),
+                async () => {
+                    const folder = await pickFrequentFolder(frecency);
+                    folder.ifSome((folder) => {
+                        active = Some(new FileBrowser(folder, None));
+                        setContext(true);
+                    });
+                }
+            )
+        )
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand("file-browser.bookmarks", () =>
+            active.match(
+                (active) => active.showBookmarks(),
+                async () => {
+                    const mark = await pickMark();
+                    if (mark !== undefined) {
+                        active = Some(new FileBrowser(markFolder(mark), Option.from(mark.file)));
+                        setContext(true);
+                    }
+                }
+            )
+        )
+    );
+
     context.subscriptions.push(
         vscode.commands.registerCommand("file-browser.stepIn", () =>
             active.ifSome((active) => active.stepIn())
@@ -1040,6 +2322,21 @@ export function activate(context: vscode.ExtensionContext) {
             active.ifSome((active) => active.exitCreateMode())
         )
     );
+    context.subscriptions.push(
+        vscode.commands.registerCommand("file-browser.filter", () =>
+            active.ifSome((active) => active.startFilterMode())
+        )
+    );
+    context.subscriptions.push(
+        vscode.commands.registerCommand("file-browser.exitFilterMode", () =>
+            active.ifSome((active) => active.exitFilterMode())
+        )
+    );
+    context.subscriptions.push(
+        vscode.commands.registerCommand("file-browser.clearFilter", () =>
+            active.ifSome((active) => active.clearFileFilter())
+        )
+    );
     context.subscriptions.push(
         vscode.commands.registerCommand("file-browser.renameFile", () =>
             active.ifSome((active) => active.renameFile())
@@ -1050,12 +2347,149 @@ export function activate(context: vscode.ExtensionContext) {
             active.ifSome((active) => active.deleteFile())
         )
     );
+    context.subscriptions.push(
+        vscode.commands.registerCommand("file-browser.yank", () =>
+            active.ifSome((active) => active.yank())
+        )
+    );
+    context.subscriptions.push(
+        vscode.commands.registerCommand("file-browser.cut", () =>
+            active.ifSome((active) => active.cut())
+        )
+    );
+    context.subscriptions.push(
+        vscode.commands.registerCommand("file-browser.paste", () =>
+            active.ifSome((active) => active.paste())
+        )
+    );
+    context.subscriptions.push(
+        vscode.commands.registerCommand("file-browser.undo", () =>
+            active.ifSome((active) => active.undo())
+        )
+    );
+    context.subscriptions.push(
+        vscode.commands.registerCommand("file-browser.redo", () =>
+            active.ifSome((active) => active.redo())
+        )
+    );
+    context.subscriptions.push(
+        vscode.commands.registerCommand("file-browser.showTrash", () =>
+            active.ifSome((active) => active.showTrash())
+        )
+    );
+    context.subscriptions.push(
+        vscode.commands.registerCommand("file-browser.jumpBack", () =>
+            active.ifSome((active) => active.jumpBack())
+        )
+    );
+    context.subscriptions.push(
+        vscode.commands.registerCommand("file-browser.jumpForward", () =>
+            active.ifSome((active) => active.jumpForward())
+        )
+    );
+    context.subscriptions.push(
+        vscode.commands.registerCommand("file-browser.findFiles", () =>
+            active.ifSome((active) => active.findFiles())
+        )
+    );
+    context.subscriptions.push(
+        vscode.commands.registerCommand("file-browser.revealFoundFile", () =>
+            Finder.chooseActive(true)
+        )
+    );
+    context.subscriptions.push(
+        vscode.commands.registerCommand("file-browser.togglePreview", () =>
+            active.ifSome((active) => active.togglePreview())
+        )
+    );
+    context.subscriptions.push(
+        vscode.commands.registerCommand("file-browser.toggleChangedOnly", () =>
+            active.ifSome((active) => active.toggleChangedOnly())
+        )
+    );
+    context.subscriptions.push(
+        vscode.commands.registerCommand("file-browser.cycleSortOrder", () =>
+            active.ifSome((active) => active.cycleSortOrder())
+        )
+    );
+    context.subscriptions.push(
+        vscode.commands.registerCommand("file-browser.toggleSortReverse", () =>
+            active.ifSome((active) => active.toggleSortReverse())
+        )
+    );
+    context.subscriptions.push(
+        vscode.commands.registerCommand("file-browser.toggleDirectoriesFirst", () =>
+            active.ifSome((active) => active.toggleDirectoriesFirst())
+        )
+    );
+    context.subscriptions.push(
+        vscode.commands.registerCommand("file-browser.toggleMetadata", () =>
+            active.ifSome((active) => active.toggleMetadata())
+        )
+    );
+    context.subscriptions.push(
+        vscode.commands.registerCommand("file-browser.toggleTreeMode", () =>
+            active.ifSome((active) => active.toggleTreeMode())
+        )
+    );
+    context.subscriptions.push(
+        vscode.commands.registerCommand("file-browser.halfPageDown", () =>
+            active.ifSome((active) => active.halfPageDown())
+        )
+    );
+    context.subscriptions.push(
+        vscode.commands.registerCommand("file-browser.halfPageUp", () =>
+            active.ifSome((active) => active.halfPageUp())
+        )
+    );
+    context.subscriptions.push(
+        vscode.commands.registerCommand("file-browser.goToPrefix", () =>
+            active.ifSome((active) => active.awaitKey("g"))
+        )
+    );
+    context.subscriptions.push(
+        vscode.commands.registerCommand("file-browser.moveToBottom", () =>
+            active.ifSome((active) => active.moveToBottom())
+        )
+    );
+    context.subscriptions.push(
+        vscode.commands.registerCommand("file-browser.togglePrefix", () =>
+            active.ifSome((active) => active.awaitKey("z"))
+        )
+    );
+    context.subscriptions.push(
+        vscode.commands.registerCommand("file-browser.findChar", () =>
+            active.ifSome((active) => active.awaitKey("f"))
+        )
+    );
+    context.subscriptions.push(
+        vscode.commands.registerCommand("file-browser.repeatFind", () =>
+            active.ifSome((active) => active.repeatFind())
+        )
+    );
+    context.subscriptions.push(
+        vscode.commands.registerCommand("file-browser.setMark", () =>
+            active.ifSome((active) => active.awaitKey("m"))
+        )
+    );
+    context.subscriptions.push(
+        vscode.commands.registerCommand("file-browser.jumpToMark", () =>
+            active.ifSome((active) => active.awaitKey("'"))
+        )
+    );
     context.subscriptions.push(
         vscode.commands.registerCommand("file-browser.handleEscapeKey", () => {
             return active.match(
                 (active) => {
                     // Handle escape key based on current mode
-                    if (active.inSearchMode) {
+                    if (active.pendingKey !== undefined) {
+                        active.count = "";
+                        active.cancelPendingKey();
+                        return true;
+                    } else if (active.count !== "") {
+                        active.count = "";
+                        return true;
+                    } else if (active.inSearchMode) {
                         active.exitSearchMode();
                         return true;
                     } else if (active.inVisualMode) {
@@ -1067,6 +2501,9 @@ export function activate(context: vscode.ExtensionContext) {
                     } else if (active.inCreateMode) {
                         active.exitCreateMode();
                         return true;
+                    } else if (active.inFilterMode) {
+                        active.exitFilterMode();
+                        return true;
                     }
                     return false;
                 },
@@ -1,6 +1,8 @@
-import { QuickPickItem, FileType } from "vscode";
+import * as vscode from "vscode";
+import { QuickPickItem, FileType, Uri } from "vscode";
 import { Action } from "./action";
 import { config, ConfigItem } from "./extension";
+import { naturalCompare, Sort, sortRecords } from "./sort";
 
 export class FileItem implements QuickPickItem {
     name: string;
@@ -10,24 +12,43 @@ export class FileItem implements QuickPickItem {
     description?: string;
     fileType?: FileType;
     action?: Action;
+    /**
+     * The file an action applies to, when it isn't the file browser's current path.
+     */
+    target?: Uri;
+    /**
+     * How deep the item is nested under the current folder in tree mode, if at all.
+     */
+    depth?: number;
+    /**
+     * The expanded folder the item is listed under in tree mode.
+     */
+    parent?: FileItem;
 
-    constructor(record: [string, FileType]) {
+    /**
+     * Make an item for a directory entry. Given a `parent`, the item's name is its path
+     * relative to the current folder, and its label is indented under the parent's.
+     */
+    constructor(record: [string, FileType], parent?: FileItem) {
         const [name, fileType] = record;
-        this.name = name;
+        this.name = parent === undefined ? name : `${parent.name}/${name}`;
+        this.parent = parent;
+        this.depth = parent === undefined ? 0 : (parent.depth || 0) + 1;
         this.fileType = fileType;
         this.alwaysShow = config(ConfigItem.HideDotfiles) ? !name.startsWith(".") : true;
+        const indent = "\u00a0\u00a0\u00a0\u00a0".repeat(this.depth || 0);
         switch (this.fileType) {
             case FileType.Directory:
-                this.label = `$(folder) ${name}`;
+                this.label = `${indent}$(folder) ${name}`;
                 break;
             case FileType.Directory | FileType.SymbolicLink:
-                this.label = `$(file-symlink-directory) ${name}`;
+                this.label = `${indent}$(file-symlink-directory) ${name}`;
                 break;
             case FileType.File | FileType.SymbolicLink:
-                this.label = `$(file-symlink-file) ${name}`;
+                this.label = `${indent}$(file-symlink-file) ${name}`;
                 break;
             default:
-                this.label = `$(file) ${name}`;
+                this.label = `${indent}$(file) ${name}`;
                 break;
         }
     }
@@ -37,16 +58,16 @@ export function itemIsDir(item: FileItem): boolean {
     if (item.fileType === undefined) {
         return false;
     }
-    return !!(item.fileType | FileType.Directory);
+    return (item.fileType & FileType.Directory) === FileType.Directory;
 }
 
 export function fileRecordCompare(left: [string, FileType], right: [string, FileType]): -1 | 0 | 1 {
     const [leftName, leftDir] = [
-        left[0].toLowerCase(),
+        left[0],
         (left[1] & FileType.Directory) === FileType.Directory,
     ];
     const [rightName, rightDir] = [
-        right[0].toLowerCase(),
+        right[0],
         (right[1] & FileType.Directory) === FileType.Directory,
     ];
     if (leftDir && !rightDir) {
@@ -55,5 +76,23 @@ export function fileRecordCompare(left: [string, FileType], right: [string, File
     if (rightDir && !leftDir) {
         return 1;
     }
-    return leftName > rightName ? 1 : leftName === rightName ? 0 : -1;
+    return Math.sign(naturalCompare(leftName, rightName)) as -1 | 0 | 1;
+}
+
+/**
+ * Read the contents of a folder, sorted by `sort`, or by name with folders first.
+ *
+ * The folder is read with `read`, which can be given to read it from a cache instead.
+ */
+export async function readSortedDirectory(
+    uri: Uri,
+    sort?: Sort,
+    read = (uri: Uri): Thenable<[string, FileType][]> => vscode.workspace.fs.readDirectory(uri)
+): Promise<[string, FileType][]> {
+    const records = await read(uri);
+    if (sort !== undefined) {
+        return sortRecords(uri, records, sort);
+    }
+    // The records may be shared with the cache, so don't sort them in place
+    return records.slice().sort(fileRecordCompare);
 }
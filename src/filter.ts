@@ -1,66 +1,248 @@
 import * as vscode from "vscode";
-import { Uri } from "vscode";
-import { lookUpwards, Path } from "./path";
+import { Uri, FileType } from "vscode";
+import { Path } from "./path";
 import ignore from "ignore";
 import { Ignore } from "ignore";
-import { FileItem, itemIsDir } from "./fileitem";
+import { FileItem } from "./fileitem";
+import * as OS from "os";
 import * as OSPath from "path";
 import { config, ConfigItem } from "./extension";
+import { git } from "./git";
+import { listDirectory, LRUCache, onDidChangeListed } from "./cache";
 
+/**
+ * The rules from one ignore file, which apply to the folder it's in.
+ */
+interface Layer {
+    path: Path;
+    /**
+     * Where the rules came from, for display.
+     */
+    name: string;
+    rules: Ignore;
+}
+
+/**
+ * Layered rules for the folders looked at most recently, by path ID.
+ */
+const cache: LRUCache<string, Promise<Rules>> = new LRUCache(500);
+
+let globalExcludes: Promise<Uri | undefined> | undefined;
+
+/**
+ * Find git's global ignore file, from `core.excludesFile` or where git looks for it by
+ * default.
+ */
+async function findGlobalExcludes(): Promise<Uri | undefined> {
+    try {
+        const args = ["config", "--path", "core.excludesFile"];
+        const configured = (await git(OS.homedir(), args)).trim();
+        if (configured !== "") {
+            return Uri.file(configured);
+        }
+    } catch {
+        // It's not set, or there's no git
+    }
+    const configHome = process.env.XDG_CONFIG_HOME || OSPath.join(OS.homedir(), ".config");
+    return Uri.file(OSPath.join(configHome, "git", "ignore"));
+}
+
+async function readLayer(file: Uri, folder: Path, name: string): Promise<Layer | undefined> {
+    let content: string;
+    try {
+        content = (await vscode.workspace.fs.readFile(file)).toString();
+    } catch {
+        return undefined;
+    }
+    return { path: folder, name, rules: ignore().add(content.split(/\r?\n/)) };
+}
+
+/**
+ * Read the rules that apply to a whole repository, and that only git knows about: the
+ * global ignore file, and `.git/info/exclude`.
+ */
+async function repositoryLayers(root: Path, gitIsFolder: boolean): Promise<Layer[]> {
+    const layers: Layer[] = [];
+    if (root.uri.scheme === "file") {
+        if (globalExcludes === undefined) {
+            globalExcludes = findGlobalExcludes();
+        }
+        const file = await globalExcludes;
+        const layer = file && (await readLayer(file, root, "global git excludes"));
+        if (layer !== undefined) {
+            layers.push(layer);
+        }
+    }
+    if (gitIsFolder) {
+        const file = root.append(".git", "info", "exclude").uri;
+        const layer = await readLayer(file, root, ".git/info/exclude");
+        if (layer !== undefined) {
+            layers.push(layer);
+        }
+    }
+    return layers;
+}
+
+/**
+ * Forget the rules read so far, so that they're read again next time.
+ */
+export function clearRulesCache() {
+    cache.clear();
+    globalExcludes = undefined;
+}
+
+/**
+ * Watch for ignore files changing, and forget the rules read from them when they do. Ignore
+ * files in the workspace are watched wherever they are, and those outside it when they're in
+ * a folder that's been listed.
+ */
+export function watchRuleFiles(): vscode.Disposable {
+    const names: string[] = config(ConfigItem.IgnoreFileTypes) || [];
+    const watcher = vscode.workspace.createFileSystemWatcher(
+        `**/{${[...names, "exclude"].join(",")}}`
+    );
+    watcher.onDidChange(clearRulesCache);
+    watcher.onDidCreate(clearRulesCache);
+    watcher.onDidDelete(clearRulesCache);
+    const listed = onDidChangeListed((uri) => {
+        if ([...names, ".git"].includes(OSPath.posix.basename(uri.path))) {
+            clearRulesCache();
+        }
+    });
+    return vscode.Disposable.from(watcher, listed);
+}
+
+/**
+ * The ignore rules which apply in a folder, layered as git layers them: the global ignore
+ * file and `.git/info/exclude` first, then the ignore files in each folder from the root of
+ * the repository down, with rules in deeper folders taking precedence.
+ *
+ * Outside a repository, the ignore files in every folder above are used.
+ */
 export class Rules {
-    private path: Path;
-    private name: string;
-    private rules: Ignore;
-
-    private constructor(path: Path) {
-        this.path = path;
-        this.rules = ignore();
-        this.name = "empty";
+    private layers: Layer[];
+    /**
+     * Whether folders above the items being filtered are ignored, by path ID.
+     */
+    private ignoredFolders: Map<string, Layer | undefined> = new Map();
+
+    private constructor(layers: Layer[]) {
+        this.layers = layers;
     }
 
     static async forPath(path: Path): Promise<Rules> {
-        const ruleFileNames: string[] | undefined = config(ConfigItem.IgnoreFileTypes);
-        if (ruleFileNames === undefined) {
-            return new Rules(path);
+        let rules = cache.get(path.id);
+        if (rules === undefined) {
+            rules = Rules.read(path);
+            cache.set(path.id, rules);
         }
-        const ruleFilePath = await lookUpwards(path.uri, ruleFileNames);
-        return ruleFilePath.match(
-            async (ruleFilePath) => await Rules.read(ruleFilePath),
-            async () => new Rules(path)
-        );
+        return rules;
     }
 
-    static async read(ruleFilePath: Uri): Promise<Rules> {
-        const ruleString = (await vscode.workspace.fs.readFile(ruleFilePath)).toString();
-        const ruleList = ruleString.trim().split(/\r?\n/);
-        const rules = new Rules(new Path(ruleFilePath).parent());
-        rules.name = OSPath.basename(ruleFilePath.path);
-        rules.add(ruleList);
-        return rules;
+    /**
+     * Make the rules for `folder` given the rules for its parent and its directory
+     * entries, without reading it again or caching the result.
+     */
+    static async within(
+        parent: Rules,
+        folder: Path,
+        records: [string, FileType][]
+    ): Promise<Rules> {
+        return Rules.layered(folder, records, async () => parent.layers);
+    }
+
+    private static async layered(
+        folder: Path,
+        records: [string, FileType][],
+        parentLayers: () => Promise<Layer[]>
+    ): Promise<Rules> {
+        const names: string[] = config(ConfigItem.IgnoreFileTypes) || [];
+        const dotGit = records.find(([name]) => name === ".git");
+        let layers: Layer[];
+        if (dotGit !== undefined) {
+            const gitIsFolder = (dotGit[1] & FileType.Directory) === FileType.Directory;
+            layers = await repositoryLayers(folder, gitIsFolder);
+        } else if (folder.atTop()) {
+            layers = [];
+        } else {
+            layers = [...(await parentLayers())];
+        }
+        for (const name of names) {
+            if (records.some(([record, type]) => record === name && !!(type & FileType.File))) {
+                const layer = await readLayer(folder.append(name).uri, folder, name);
+                if (layer !== undefined) {
+                    layers.push(layer);
+                }
+            }
+        }
+        return new Rules(layers);
+    }
+
+    private static async read(folder: Path): Promise<Rules> {
+        let records: [string, FileType][];
+        try {
+            records = await listDirectory(folder);
+        } catch {
+            records = [];
+        }
+        return Rules.layered(folder, records, async () => {
+            const parent = await Rules.forPath(folder.parent());
+            return parent.layers;
+        });
     }
 
-    private add(rules: string[]) {
-        this.rules.add(rules);
+    /**
+     * Find the layer which decides that `path` is ignored, looking only at `path` itself
+     * and not the folders it's in. The last rule to match wins, so we go from the deepest
+     * layer up, and stop at the first one which has anything to say about it.
+     */
+    private match(path: Path, isFolder: boolean): Layer | undefined {
+        for (let index = this.layers.length - 1; index >= 0; index--) {
+            const layer = this.layers[index];
+            const relativePath = path.relativeTo(layer.path.uri).getOr("");
+            if (relativePath === "" || relativePath.startsWith("..")) {
+                continue;
+            }
+            const result = layer.rules.test(isFolder ? `${relativePath}/` : relativePath);
+            if (result.ignored) {
+                return layer;
+            }
+            if (result.unignored) {
+                return undefined;
+            }
+        }
+        return undefined;
+    }
+
+    /**
+     * Find the layer which ignores the folder `path` or one of the folders it's in, as
+     * nothing inside an ignored folder can be brought back with a negated rule.
+     */
+    private folderIgnoredBy(path: Path): Layer | undefined {
+        // The layers start at the top, which can't itself be ignored
+        const top = this.layers[0];
+        const relativePath = top === undefined ? "" : path.relativeTo(top.path.uri).getOr("");
+        if (relativePath === "" || relativePath.startsWith("..")) {
+            return undefined;
+        }
+        if (!this.ignoredFolders.has(path.id)) {
+            const layer = this.folderIgnoredBy(path.parent()) || this.match(path, true);
+            this.ignoredFolders.set(path.id, layer);
+        }
+        return this.ignoredFolders.get(path.id);
     }
 
     filter(base: Path, items: FileItem[]): FileItem[] {
         return items.map((item) => {
-            let path = base
-                .append(item.name)
-                .relativeTo(this.path.uri)
-                .getOrElse(() => {
-                    throw new Error(
-                        "Tried to apply ignore rules to a path that wasn't relative to the rule path!"
-                    );
-                });
-            if (itemIsDir(item)) {
-                path += "/";
-            }
-            const ignored = this.rules.test(path).ignored;
-            if (ignored) {
+            const path = base.append(item.name);
+            const isFolder =
+                item.fileType !== undefined &&
+                (item.fileType & FileType.Directory) === FileType.Directory;
+            const layer = this.folderIgnoredBy(path.parent()) || this.match(path, isFolder);
+            if (layer !== undefined) {
                 item.alwaysShow = false;
                 if (config(ConfigItem.LabelIgnoredFiles)) {
-                    item.description = `(in ${this.name})`;
+                    item.description = `(in ${layer.name})`;
                 }
             }
             return item;
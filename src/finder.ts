@@ -0,0 +1,198 @@
+import * as vscode from "vscode";
+import { Uri, FileType, QuickPickItem, QuickInputButton, ThemeIcon } from "vscode";
+import { Path } from "./path";
+import { Rules } from "./filter";
+import { Excludes } from "./exclude";
+import { FileItem, readSortedDirectory } from "./fileitem";
+import { listDirectory } from "./cache";
+import { config, ConfigItem } from "./extension";
+
+interface FinderItem extends QuickPickItem {
+    uri: Uri;
+}
+
+export interface FinderChoice {
+    uri: Uri;
+    /**
+     * Whether to show the file in the file browser rather than open it.
+     */
+    reveal: boolean;
+}
+
+/**
+ * Stop listing files after this many, to keep huge trees from eating all our memory.
+ */
+const maxFiles = 50000;
+
+/**
+ * How often to show the files found so far while still walking the tree, in milliseconds.
+ */
+const refreshInterval = 100;
+
+let activeFinder: Finder | undefined;
+
+/**
+ * A quick pick listing every file below a folder, found by walking the tree in the
+ * background.
+ */
+export class Finder {
+    private root: Path;
+    private picker: vscode.QuickPick<FinderItem>;
+    private items: FinderItem[] = [];
+    /**
+     * The files hidden from the file browser, which are listed after all the others.
+     */
+    private hiddenItems: FinderItem[] = [];
+    private done = false;
+    private resolve: (choice: FinderChoice | undefined) => void = () => undefined;
+
+    revealButton: QuickInputButton = {
+        iconPath: new ThemeIcon("folder-opened"),
+        tooltip: "Show in the file browser (Ctrl+Enter)",
+    };
+
+    private constructor(root: Path) {
+        this.root = root;
+        this.picker = vscode.window.createQuickPick();
+        this.picker.title = `Files in ${root.fsPath}`;
+        this.picker.placeholder = "Type to find a file (Enter to open, Ctrl+Enter to show it)";
+        this.picker.matchOnDescription = true;
+        this.picker.busy = true;
+        this.picker.onDidAccept(() => this.choose(false));
+        this.picker.onDidTriggerItemButton(({ item }) =>
+            this.finish({ uri: item.uri, reveal: true })
+        );
+        this.picker.onDidHide(() => this.finish(undefined));
+    }
+
+    /**
+     * Let the user pick a file from anywhere below `root`.
+     */
+    static pick(root: Path): Promise<FinderChoice | undefined> {
+        const finder = new Finder(root);
+        activeFinder = finder;
+        vscode.commands.executeCommand("setContext", "inFileBrowserFinder", true);
+        const choice = new Promise<FinderChoice | undefined>((resolve) => {
+            finder.resolve = resolve;
+        });
+        finder.picker.show();
+        finder.walk();
+        return choice;
+    }
+
+    /**
+     * Pick the active item of the finder currently open, if there is one.
+     */
+    static chooseActive(reveal: boolean) {
+        activeFinder?.choose(reveal);
+    }
+
+    private choose(reveal: boolean) {
+        const item = this.picker.activeItems[0];
+        if (item !== undefined) {
+            this.finish({ uri: item.uri, reveal });
+        }
+    }
+
+    private finish(choice: FinderChoice | undefined) {
+        if (this.done) {
+            return;
+        }
+        this.done = true;
+        activeFinder = undefined;
+        vscode.commands.executeCommand("setContext", "inFileBrowserFinder", false);
+        this.picker.dispose();
+        this.resolve(choice);
+    }
+
+    private item(uri: Uri, description?: string): FinderItem {
+        const relativePath = new Path(uri).relativeTo(this.root.uri).getOr(uri.fsPath);
+        return {
+            label: `$(file) ${relativePath}`,
+            description,
+            uri,
+            buttons: [this.revealButton],
+        };
+    }
+
+    /**
+     * Walk the tree breadth first, so that files closer to the root show up first.
+     *
+     * Entries the file browser hides, because of `file-browser.hideDotfiles`, ignore files
+     * or `files.exclude`, are listed after all the others, or left out altogether if
+     * `file-browser.removeIgnoredFiles` is set. Symlinks to folders aren't walked into, to
+     * avoid going round in circles.
+     */
+    private async walk() {
+        const useRules = !!config(ConfigItem.HideIgnoreFiles);
+        const removeHidden = !!config(ConfigItem.RemoveIgnoredFiles);
+        const excludes = new Excludes(this.root);
+        const rootRules = useRules ? await Rules.forPath(this.root) : undefined;
+        // Folders holding only hidden entries are walked after all the others
+        const queue: [Path, Rules | undefined, boolean][] = [[this.root, rootRules, false]];
+        const hiddenQueue: [Path, Rules | undefined, boolean][] = [];
+        let lastRefresh = Date.now();
+        while (
+            (queue.length > 0 || hiddenQueue.length > 0) &&
+            !this.done &&
+            this.items.length + this.hiddenItems.length < maxFiles
+        ) {
+            const [folder, parentRules, inHidden] = (queue.shift() || hiddenQueue.shift())!;
+            let records: [string, FileType][];
+            try {
+                // Use what's been listed already, but don't push the folders the user has
+                // been looking at out of the cache with everything in the tree
+                records = await readSortedDirectory(folder.uri, undefined, () =>
+                    listDirectory(folder, false)
+                );
+            } catch {
+                continue;
+            }
+            // A folder's own ignore files are layered over the ones above it
+            const rules =
+                parentRules && folder !== this.root
+                    ? await Rules.within(parentRules, folder, records)
+                    : parentRules;
+
+            let entries = records.map((record) => new FileItem(record));
+            if (rules !== undefined) {
+                entries = rules.filter(folder, entries);
+            }
+            entries = excludes.filter(folder, entries);
+            for (const entry of entries) {
+                const hidden = inHidden || !entry.alwaysShow;
+                if (entry.fileType === undefined || (hidden && removeHidden)) {
+                    continue;
+                }
+                const path = folder.append(entry.name);
+                if (entry.fileType === FileType.Directory) {
+                    if (entry.name !== ".git") {
+                        (hidden ? hiddenQueue : queue).push([path, rules, hidden]);
+                    }
+                } else if ((entry.fileType & FileType.File) === FileType.File) {
+                    if (hidden) {
+                        this.hiddenItems.push(this.item(path.uri, entry.description));
+                    } else {
+                        this.items.push(this.item(path.uri));
+                    }
+                }
+            }
+
+            if (Date.now() - lastRefresh > refreshInterval) {
+                this.refresh();
+                lastRefresh = Date.now();
+            }
+        }
+        this.picker.busy = false;
+        this.refresh();
+    }
+
+    private refresh() {
+        if (!this.done) {
+            // Don't lose the user's place in the list when more files come in
+            const active = this.picker.activeItems;
+            this.picker.items = [...this.items, ...this.hiddenItems];
+            this.picker.activeItems = active;
+        }
+    }
+}
@@ -0,0 +1,194 @@
+import * as vscode from "vscode";
+import { Memento, Uri, FileType } from "vscode";
+import * as OSPath from "path";
+import { Option, None } from "@bodil/opt";
+import { Path } from "./path";
+import { fuzzyScore } from "./fuzzy";
+
+interface Visits {
+    /**
+     * How often the folder has been visited, decayed as the database grows.
+     */
+    rank: number;
+    /**
+     * When the folder was last visited, in milliseconds since the epoch.
+     */
+    lastVisit: number;
+}
+
+const storageKey = "file-browser.frecency";
+
+/**
+ * Once the ranks add up to more than this, they're all scaled down so that folders no longer
+ * used fade away.
+ */
+const maxTotalRank = 10000;
+
+const hour = 60 * 60 * 1000;
+const day = 24 * hour;
+const week = 7 * day;
+
+/**
+ * A zoxide style database of the folders visited, ranked by how often and how recently
+ * they were visited.
+ */
+export class Frecency {
+    private store: Memento;
+
+    constructor(store: Memento) {
+        this.store = store;
+    }
+
+    private read(): { [folder: string]: Visits } {
+        return this.store.get(storageKey, {});
+    }
+
+    private async write(folders: { [folder: string]: Visits }) {
+        await this.store.update(storageKey, folders);
+    }
+
+    async visit(folder: Path) {
+        const folders = this.read();
+        const visits = folders[folder.id] || { rank: 0, lastVisit: 0 };
+        folders[folder.id] = { rank: visits.rank + 1, lastVisit: Date.now() };
+        const total = Object.values(folders).reduce((sum, { rank }) => sum + rank, 0);
+        if (total > maxTotalRank) {
+            for (const [id, { rank, lastVisit }] of Object.entries(folders)) {
+                const aged = rank * 0.9;
+                if (aged < 1) {
+                    delete folders[id];
+                } else {
+                    folders[id] = { rank: aged, lastVisit };
+                }
+            }
+        }
+        await this.write(folders);
+    }
+
+    /**
+     * List the folders visited, highest score first, leaving out any which can't be found.
+     *
+     * Folders are only forgotten once their file system says they're gone, not when it's
+     * unavailable for now, as with a remote which isn't connected.
+     */
+    async folders(): Promise<Path[]> {
+        const folders = this.read();
+        const now = Date.now();
+        const checked = await Promise.all(
+            Object.entries(folders).map(async ([id, visits]) => {
+                const folder = new Path(Uri.parse(id));
+                return { id, visits, folder, found: await findFolder(folder) };
+            })
+        );
+        const gone = checked.filter(({ found }) => found === Found.Gone);
+        if (gone.length > 0) {
+            for (const { id } of gone) {
+                delete folders[id];
+            }
+            await this.write(folders);
+        }
+        return checked
+            .filter(({ found }) => found === Found.Folder)
+            .map(({ folder, visits }): [Path, number] => [folder, score(visits, now)])
+            .sort(([, left], [, right]) => right - left)
+            .map(([folder]) => folder);
+    }
+}
+
+enum Found {
+    Folder,
+    /**
+     * There's something there, or we can't tell, as its file system isn't available.
+     */
+    NotFolder,
+    Gone,
+}
+
+async function findFolder(folder: Path): Promise<Found> {
+    try {
+        const stat = await vscode.workspace.fs.stat(folder.uri);
+        return (stat.type & FileType.Directory) === FileType.Directory
+            ? Found.Folder
+            : Found.NotFolder;
+    } catch (error) {
+        // Without a provider for the scheme, as when the remote isn't connected, or with
+        // any other error, the folder may well still be there
+        const known = vscode.workspace.fs.isWritableFileSystem(folder.uri.scheme) !== undefined;
+        const notFound =
+            error instanceof vscode.FileSystemError && error.code === "FileNotFound";
+        return known && notFound ? Found.Gone : Found.NotFolder;
+    }
+}
+
+function score({ rank, lastVisit }: Visits, now: number): number {
+    const age = now - lastVisit;
+    if (age < hour) {
+        return rank * 4;
+    } else if (age < day) {
+        return rank * 2;
+    } else if (age < week) {
+        return rank / 2;
+    }
+    return rank / 4;
+}
+
+/**
+ * Test whether a folder matches the fragments the user typed.
+ *
+ * As with zoxide, each fragment has to match the path in order, and the last one has to
+ * match the folder's own name, so `src ext` matches `~/work/src/vscode-extension` but not
+ * `~/work/extension/src`. Fragments are matched fuzzily.
+ */
+export function matchFragments(fragments: string[], folder: Path): boolean {
+    const path = folder.fsPath;
+    let offset = 0;
+    for (const fragment of fragments) {
+        const match = fuzzyScore(fragment, path.slice(offset));
+        if (match.isNone()) {
+            return false;
+        }
+        const positions = match.value.positions;
+        offset += positions[positions.length - 1] + 1;
+    }
+    const last = fragments[fragments.length - 1];
+    return last === undefined || !fuzzyScore(last, OSPath.basename(path)).isNone();
+}
+
+/**
+ * Ask the user to pick one of the folders they've visited, narrowed down by the fragments
+ * they type. Enter goes straight to the best match.
+ */
+export async function pickFrequentFolder(frecency: Frecency): Promise<Option<Path>> {
+    const folders = await frecency.folders();
+    if (folders.length === 0) {
+        vscode.window.showInformationMessage("No folders have been visited yet");
+        return None;
+    }
+    const items = folders.map((folder) => ({
+        label: `$(folder) ${OSPath.basename(folder.fsPath) || folder.fsPath}`,
+        description: folder.fsPath,
+        // We do our own filtering
+        alwaysShow: true,
+        folder,
+    }));
+    const picker = vscode.window.createQuickPick<typeof items[number]>();
+    picker.placeholder = "Type parts of a folder's path to jump to it";
+    picker.items = items;
+    picker.onDidChangeValue((value) => {
+        const fragments = value.split(/\s+/).filter((fragment) => fragment !== "");
+        const matches = items.filter((item) => matchFragments(fragments, item.folder));
+        picker.items = matches;
+        // The quick pick may move the items its own filter matches up, so pick the best
+        // match ourselves
+        picker.activeItems = matches.slice(0, 1);
+    });
+    const choice = await new Promise<Option<Path>>((resolve) => {
+        picker.onDidAccept(() =>
+            resolve(Option.from(picker.activeItems[0]).map((item) => item.folder))
+        );
+        picker.onDidHide(() => resolve(None));
+        picker.show();
+    });
+    picker.dispose();
+    return choice;
+}
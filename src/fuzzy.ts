@@ -0,0 +1,146 @@
+import { Option, None, Some } from "@bodil/opt";
+
+export interface FuzzyMatch {
+    score: number;
+    /**
+     * The indices of the matched characters in the target.
+     */
+    positions: number[];
+}
+
+const matchScore = 1;
+const exactCaseBonus = 1;
+const consecutiveBonus = 5;
+const startBonus = 8;
+const boundaryBonus = 7;
+const camelCaseBonus = 6;
+const gapPenalty = 1;
+const leadingGapPenalty = 0.5;
+const maxLeadingGapPenalty = 3;
+
+function isSeparator(char: string): boolean {
+    return /[\s._\-/\\]/.test(char);
+}
+
+function isLower(char: string): boolean {
+    return char !== char.toUpperCase() && char === char.toLowerCase();
+}
+
+function isUpper(char: string): boolean {
+    return char !== char.toLowerCase() && char === char.toUpperCase();
+}
+
+/**
+ * The bonus for a match at `index` in `target`, for where it falls relative to words.
+ */
+function positionBonus(target: string, index: number): number {
+    if (index === 0) {
+        return startBonus;
+    }
+    const previous = target[index - 1];
+    if (isSeparator(previous)) {
+        return boundaryBonus;
+    }
+    if (isLower(previous) && isUpper(target[index])) {
+        return camelCaseBonus;
+    }
+    return 0;
+}
+
+/**
+ * Score how well `query` matches `target` as a case insensitive subsequence, or `None` if it
+ * doesn't match at all.
+ *
+ * Matches at the start of the target, at word boundaries and camelCase humps, and runs of
+ * consecutive characters score higher, while characters skipped in between score lower. Of
+ * all the ways the query can match, the best scoring one is used.
+ */
+export function fuzzyScore(query: string, target: string): Option<FuzzyMatch> {
+    const queryLength = query.length;
+    const targetLength = target.length;
+    if (queryLength === 0) {
+        return Some({ score: 0, positions: [] });
+    }
+    if (queryLength > targetLength) {
+        return None;
+    }
+    const lowerQuery = query.toLowerCase();
+    const lowerTarget = target.toLowerCase();
+
+    // scores[i][j] is the best score for matching the query up to i with i matched at j
+    const scores: number[][] = [];
+    const previous: number[][] = [];
+    for (let i = 0; i < queryLength; i++) {
+        scores.push(new Array(targetLength).fill(-Infinity));
+        previous.push(new Array(targetLength).fill(-1));
+        // The best of scores[i - 1][k] for k < j - 1, adjusted so that the gap penalty
+        // up to j can be applied without going back over every k
+        let bestBefore = -Infinity;
+        let bestBeforeIndex = -1;
+        for (let j = i; j < targetLength; j++) {
+            if (i > 0 && j >= 2) {
+                const candidate = scores[i - 1][j - 2] + (j - 2) * gapPenalty;
+                if (candidate > bestBefore) {
+                    bestBefore = candidate;
+                    bestBeforeIndex = j - 2;
+                }
+            }
+            if (lowerQuery[i] !== lowerTarget[j]) {
+                continue;
+            }
+            let score =
+                matchScore +
+                positionBonus(target, j) +
+                (query[i] === target[j] ? exactCaseBonus : 0);
+            if (i === 0) {
+                score -= Math.min(j * leadingGapPenalty, maxLeadingGapPenalty);
+                scores[i][j] = score;
+                continue;
+            }
+            const afterGap = bestBefore - (j - 1) * gapPenalty;
+            const consecutive = scores[i - 1][j - 1] + consecutiveBonus;
+            if (consecutive >= afterGap && consecutive > -Infinity) {
+                scores[i][j] = score + consecutive;
+                previous[i][j] = j - 1;
+            } else if (afterGap > -Infinity) {
+                scores[i][j] = score + afterGap;
+                previous[i][j] = bestBeforeIndex;
+            }
+        }
+    }
+
+    const last = scores[queryLength - 1];
+    let end = -1;
+    for (let j = 0; j < targetLength; j++) {
+        if (last[j] > -Infinity && (end < 0 || last[j] > last[end])) {
+            end = j;
+        }
+    }
+    if (end < 0) {
+        return None;
+    }
+    const positions: number[] = [];
+    for (let i = queryLength - 1, j = end; i >= 0; j = previous[i][j], i--) {
+        positions.unshift(j);
+    }
+    return Some({ score: last[end], positions });
+}
+
+/**
+ * Keep only the items whose name fuzzy matches `query`, best match first. Items scoring the
+ * same keep their original order.
+ */
+export function fuzzyFilter<A>(
+    items: A[],
+    query: string,
+    name: (item: A) => string
+): [A, FuzzyMatch][] {
+    const matches: [A, FuzzyMatch, number][] = [];
+    items.forEach((item, index) =>
+        fuzzyScore(query, name(item)).ifSome((match) => matches.push([item, match, index]))
+    );
+    matches.sort(([, left, leftIndex], [, right, rightIndex]) =>
+        right.score - left.score || leftIndex - rightIndex
+    );
+    return matches.map(([item, match]) => [item, match]);
+}
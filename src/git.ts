@@ -0,0 +1,262 @@
+import * as vscode from "vscode";
+import { Uri } from "vscode";
+import * as ChildProcess from "child_process";
+import * as OSPath from "path";
+import { Path } from "./path";
+import { LRUCache, onDidChangeListed } from "./cache";
+
+export enum GitStatus {
+    Modified = "M",
+    Added = "A",
+    Untracked = "U",
+    Conflicted = "C",
+    /**
+     * A folder with changed files somewhere inside it.
+     */
+    ContainsChanges = "•",
+}
+
+/**
+ * The parts of the `vscode.git` extension's API that we use.
+ */
+interface GitChange {
+    readonly uri: Uri;
+    readonly status: number;
+}
+
+interface GitRepository {
+    readonly rootUri: Uri;
+    readonly state: {
+        readonly mergeChanges: GitChange[];
+        readonly indexChanges: GitChange[];
+        readonly workingTreeChanges: GitChange[];
+        readonly untrackedChanges?: GitChange[];
+    };
+}
+
+interface GitAPI {
+    getRepository(uri: Uri): GitRepository | null;
+}
+
+/**
+ * The status of a working tree change in the `vscode.git` API for an untracked file.
+ */
+const untrackedStatus = 7;
+
+/**
+ * The status of an index change in the `vscode.git` API for an added file.
+ */
+const indexAddedStatus = 1;
+
+function gitAPI(): GitAPI | undefined {
+    const extension = vscode.extensions.getExtension("vscode.git");
+    if (extension === undefined || !extension.isActive) {
+        return undefined;
+    }
+    try {
+        return extension.exports.getAPI(1);
+    } catch {
+        // The git extension is disabled through its settings
+        return undefined;
+    }
+}
+
+/**
+ * Get the statuses of changed files from the `vscode.git` extension, if it knows about the
+ * repository `folder` is in.
+ */
+function statusesFromExtension(folder: Uri): Map<string, GitStatus> | undefined {
+    const repository = gitAPI()?.getRepository(folder);
+    if (!repository) {
+        return undefined;
+    }
+    const statuses = new Map<string, GitStatus>();
+    const { mergeChanges, indexChanges, workingTreeChanges, untrackedChanges } = repository.state;
+    for (const change of [...workingTreeChanges, ...(untrackedChanges || [])]) {
+        statuses.set(
+            change.uri.toString(),
+            change.status === untrackedStatus ? GitStatus.Untracked : GitStatus.Modified
+        );
+    }
+    for (const change of indexChanges) {
+        if (change.status === indexAddedStatus) {
+            statuses.set(change.uri.toString(), GitStatus.Added);
+        } else if (!statuses.has(change.uri.toString())) {
+            statuses.set(change.uri.toString(), GitStatus.Modified);
+        }
+    }
+    for (const change of mergeChanges) {
+        statuses.set(change.uri.toString(), GitStatus.Conflicted);
+    }
+    return statuses;
+}
+
+/**
+ * Run git in `cwd`, and get what it printed.
+ */
+export function git(cwd: string, args: string[]): Promise<string> {
+    const options = { cwd, maxBuffer: 64 * 1024 * 1024 };
+    return new Promise((resolve, reject) =>
+        ChildProcess.execFile("git", args, options, (error, stdout) =>
+            error ? reject(error) : resolve(stdout)
+        )
+    );
+}
+
+/**
+ * Translate the two letter status of `git status --porcelain`.
+ */
+function parsePorcelainStatus(code: string): GitStatus {
+    if (code === "??") {
+        return GitStatus.Untracked;
+    }
+    if (code.includes("U") || code === "AA" || code === "DD") {
+        return GitStatus.Conflicted;
+    }
+    if (code[0] === "A") {
+        return GitStatus.Added;
+    }
+    return GitStatus.Modified;
+}
+
+/**
+ * How long to trust the statuses git gave us for. Staging or committing doesn't change any
+ * folder we list, so they're asked for again after a while even if nothing seems to change.
+ */
+const statusLifetime = 5 * 1000;
+
+interface CachedStatuses {
+    statuses: Promise<Map<string, GitStatus>>;
+    time: number;
+}
+
+/**
+ * The root of the repository each of the folders looked at most recently is in, by path ID,
+ * or `undefined` for those not in one.
+ */
+const repositoryRoots: LRUCache<string, Promise<string | undefined>> = new LRUCache(500);
+
+/**
+ * The statuses git reported for the repositories looked at most recently, by root.
+ */
+const repositoryStatuses: LRUCache<string, CachedStatuses> = new LRUCache(20);
+
+/**
+ * Watch the folders listed for changes, and forget the statuses of the repositories they're
+ * in when they do, or which folders are in a repository when a `.git` comes or goes.
+ */
+export function watchGitStatuses(): vscode.Disposable {
+    return onDidChangeListed((uri) => {
+        if (OSPath.posix.basename(uri.path) === ".git") {
+            repositoryRoots.clear();
+        }
+        if (uri.scheme !== "file") {
+            return;
+        }
+        for (const root of repositoryStatuses.keys()) {
+            const relative = OSPath.relative(root, uri.fsPath);
+            if (!relative.startsWith("..") && !OSPath.isAbsolute(relative)) {
+                repositoryStatuses.delete(root);
+            }
+        }
+    });
+}
+
+function repositoryRoot(folder: Uri): Promise<string | undefined> {
+    const id = folder.toString();
+    let root = repositoryRoots.get(id);
+    if (root === undefined) {
+        root = git(folder.fsPath, ["rev-parse", "--show-toplevel"]).then(
+            (output) => output.trim(),
+            // Not in a repository, or no git to be found
+            () => undefined
+        );
+        repositoryRoots.set(id, root);
+    }
+    return root;
+}
+
+/**
+ * Get the statuses of changed files by asking git directly, or remember them from last
+ * time if nothing in the repository seems to have changed since. This only works for local
+ * files, and only in a trusted workspace, as a repository's own configuration can make git
+ * run commands.
+ */
+async function statusesFromGit(folder: Uri): Promise<Map<string, GitStatus>> {
+    if (folder.scheme !== "file" || !vscode.workspace.isTrusted) {
+        return new Map();
+    }
+    const root = await repositoryRoot(folder);
+    if (root === undefined) {
+        return new Map();
+    }
+    const cached = repositoryStatuses.get(root);
+    if (cached !== undefined && Date.now() - cached.time < statusLifetime) {
+        return cached.statuses;
+    }
+    const statuses = readStatuses(root);
+    repositoryStatuses.set(root, { statuses, time: Date.now() });
+    return statuses;
+}
+
+async function readStatuses(root: string): Promise<Map<string, GitStatus>> {
+    const statuses = new Map<string, GitStatus>();
+    let output: string;
+    try {
+        output = await git(root, [
+            // Don't run the repository's file system monitor
+            "-c",
+            "core.fsmonitor=false",
+            "status",
+            "--porcelain",
+            "-z",
+            "--untracked-files=all",
+        ]);
+    } catch {
+        return statuses;
+    }
+    const entries = output.split("\0");
+    for (let index = 0; index < entries.length; index++) {
+        const entry = entries[index];
+        if (entry.length < 4) {
+            continue;
+        }
+        const code = entry.slice(0, 2);
+        const uri = Uri.file(OSPath.join(root, entry.slice(3)));
+        statuses.set(uri.toString(), parsePorcelainStatus(code));
+        if (code[0] === "R" || code[0] === "C") {
+            // Renames and copies are followed by the name they came from
+            index++;
+        }
+    }
+    return statuses;
+}
+
+/**
+ * Find the git status of everything changed in the repository `folder` is in, by URI.
+ */
+export async function gitStatuses(folder: Path): Promise<Map<string, GitStatus>> {
+    return statusesFromExtension(folder.uri) || (await statusesFromGit(folder.uri));
+}
+
+/**
+ * Look up the status of `path`, which for a folder is whether anything inside it has
+ * changed.
+ */
+export function statusOf(
+    statuses: Map<string, GitStatus>,
+    path: Path,
+    isFolder: boolean
+): GitStatus | undefined {
+    const status = statuses.get(path.id);
+    if (status !== undefined || !isFolder) {
+        return status;
+    }
+    const prefix = path.id.endsWith("/") ? path.id : `${path.id}/`;
+    for (const id of statuses.keys()) {
+        if (id.startsWith(prefix)) {
+            return GitStatus.ContainsChanges;
+        }
+    }
+    return undefined;
+}
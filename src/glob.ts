@@ -0,0 +1,98 @@
+/**
+ * Translate a glob pattern into a regular expression source.
+ *
+ * Supports `*` and `?` (which don't match `/`), `**` (which does), character classes
+ * like `[a-z]` and `[!a-z]`, and alternatives like `{js,ts}`, which can be nested.
+ */
+function globSource(glob: string): string {
+    let source = "";
+    let depth = 0;
+    for (let index = 0; index < glob.length; index++) {
+        const char = glob[index];
+        switch (char) {
+            case "*":
+                if (glob[index + 1] === "*") {
+                    index++;
+                    if (glob[index + 1] === "/") {
+                        // `**/` also matches nothing at all
+                        index++;
+                        source += "(?:.*/)?";
+                    } else {
+                        source += ".*";
+                    }
+                } else {
+                    source += "[^/]*";
+                }
+                break;
+            case "?":
+                source += "[^/]";
+                break;
+            case "[": {
+                const end = glob.indexOf("]", index + 2);
+                if (end < 0) {
+                    source += "\\[";
+                    break;
+                }
+                let body = glob.slice(index + 1, end).replace(/\\/g, "\\\\");
+                if (body.startsWith("!")) {
+                    body = "^" + body.slice(1);
+                }
+                source += `[${body}]`;
+                index = end;
+                break;
+            }
+            case "{":
+                depth++;
+                source += "(?:";
+                break;
+            case "}":
+                if (depth > 0) {
+                    depth--;
+                    source += ")";
+                } else {
+                    source += "\\}";
+                }
+                break;
+            case ",":
+                source += depth > 0 ? "|" : ",";
+                break;
+            default:
+                source += char.replace(/[.+^$()|\\]/g, "\\$&");
+        }
+    }
+    return source + ")".repeat(depth);
+}
+
+/**
+ * Compile a glob pattern into a regular expression matching the whole of a path.
+ */
+export function globToRegExp(glob: string): RegExp {
+    return new RegExp(`^${globSource(glob)}$`);
+}
+
+/**
+ * Test whether `path` matches the glob pattern `glob`.
+ *
+ * A pattern without a `/` in it is matched against the last segment of the path only, so
+ * that `*.ts` matches `src/extension.ts`.
+ */
+export function matchGlob(glob: string, path: string): boolean {
+    const target = glob.includes("/") ? path : path.slice(path.lastIndexOf("/") + 1);
+    return globToRegExp(glob).test(target);
+}
+
+/**
+ * Compile a filter like `*.test.ts`, `!*.map` or `*.ts !*.d.ts`: a list of glob patterns
+ * separated by spaces, where a path has to match one of the plain patterns, if there are
+ * any, and none of those starting with `!`.
+ */
+export function globFilter(filter: string): (path: string) => boolean {
+    const patterns = filter.split(/\s+/).filter((pattern) => pattern !== "" && pattern !== "!");
+    const included = patterns.filter((pattern) => !pattern.startsWith("!"));
+    const excluded = patterns
+        .filter((pattern) => pattern.startsWith("!"))
+        .map((pattern) => pattern.slice(1));
+    return (path) =>
+        (included.length === 0 || included.some((glob) => matchGlob(glob, path))) &&
+        !excluded.some((glob) => matchGlob(glob, path));
+}
@@ -0,0 +1,346 @@
+import * as vscode from "vscode";
+import { Uri } from "vscode";
+import * as OSPath from "path";
+import { Trash } from "./trash";
+import { config, ConfigItem } from "./extension";
+import { forgetPath } from "./cache";
+
+export enum OperationKind {
+    /**
+     * Move a file from `from` to `to`. Renames, cuts and pastes.
+     */
+    Move,
+    /**
+     * Copy a file from `from` to `to`.
+     */
+    Copy,
+    /**
+     * Move the file at `from` into the trash at `to`.
+     */
+    Delete,
+    /**
+     * Move the file in the trash at `from` back into `to`.
+     */
+    Restore,
+    /**
+     * Delete the file at `from` for good, when `file-browser.useTrash` is off. This can't be
+     * undone, so it's never recorded.
+     */
+    Erase,
+}
+
+export interface Operation {
+    kind: OperationKind;
+    from: Uri;
+    to: Uri;
+}
+
+/**
+ * A file [[`Transaction.renameAll`]] couldn't rename.
+ */
+export interface RenameFailure {
+    /**
+     * The file's name before renaming.
+     */
+    name: string;
+    /**
+     * The temporary name the file was left with, if it couldn't be given its old name back.
+     */
+    temporary?: string;
+}
+
+/**
+ * Describe a file which couldn't be renamed, and where it was left if it's been left with
+ * a temporary name.
+ */
+export function describeRenameFailure({ name, temporary }: RenameFailure): string {
+    return temporary === undefined ? `"${name}"` : `"${name}" (left as "${temporary}")`;
+}
+
+/**
+ * A list of operations which are undone and redone as a unit.
+ */
+interface Entry {
+    label: string;
+    operations: Operation[];
+}
+
+/**
+ * A record of file operations performed by the file browser, which can be undone and redone.
+ *
+ * Deleted files are moved into the [[Trash]] rather than being removed, so that undoing a
+ * delete can bring them back, unless `file-browser.useTrash` is off. Undoing a copy or a
+ * file creation likewise moves the file into the trash, so that it can be redone.
+ */
+export class Journal {
+    private trash: Trash;
+    private undoStack: Entry[] = [];
+    private redoStack: Entry[] = [];
+
+    constructor(trash: Trash) {
+        this.trash = trash;
+    }
+
+    /**
+     * Forget the undo steps which move files into or out of the trash. Use this when the
+     * trash is emptied, as the files they need are gone.
+     */
+    forgetTrashed() {
+        const usesTrash = (entry: Entry) =>
+            entry.operations.some(
+                ({ from, to }) => this.trash.contains(from) || this.trash.contains(to)
+            );
+        this.undoStack = this.undoStack.filter((entry) => !usesTrash(entry));
+        this.redoStack = this.redoStack.filter((entry) => !usesTrash(entry));
+    }
+
+    get canUndo(): boolean {
+        return this.undoStack.length > 0;
+    }
+
+    get canRedo(): boolean {
+        return this.redoStack.length > 0;
+    }
+
+    /**
+     * Make a delete operation for `uri`, with a fresh place in the trash, or if the trash
+     * isn't to be used, one which deletes it permanently.
+     */
+    delete(uri: Uri): Operation {
+        if (!config(ConfigItem.UseTrash)) {
+            return { kind: OperationKind.Erase, from: uri, to: uri };
+        }
+        return this.stage(uri);
+    }
+
+    private stage(uri: Uri): Operation {
+        return { kind: OperationKind.Delete, from: uri, to: this.trash.allocate(uri) };
+    }
+
+    /**
+     * Make an operation restoring the file in the trash at `staged` to `original`.
+     */
+    restore(staged: Uri, original: Uri): Operation {
+        return { kind: OperationKind.Restore, from: staged, to: original };
+    }
+
+    /**
+     * Make an operation recording that a file was created at `uri`.
+     *
+     * This is used for files created outside the journal; applying it would restore a
+     * file from the trash which isn't there, so it should only be passed to
+     * [[`Journal.record`]].
+     */
+    created(uri: Uri): Operation {
+        return this.restore(this.trash.allocate(uri), uri);
+    }
+
+    /**
+     * Apply a list of operations in order, and record the ones which succeeded as a
+     * single undo step.
+     *
+     * Returns the operations which failed.
+     */
+    async run(label: string, operations: Operation[]): Promise<Operation[]> {
+        const transaction = this.begin(label);
+        const failed: Operation[] = [];
+        for (const operation of operations) {
+            if (!(await transaction.run(operation))) {
+                failed.push(operation);
+            }
+        }
+        transaction.commit();
+        return failed;
+    }
+
+    /**
+     * Start a [[Transaction]], for building an undo step out of operations which can't all
+     * be known up front.
+     */
+    begin(label: string): Transaction {
+        return new Transaction(this, label);
+    }
+
+    /**
+     * Record a list of operations which have already been performed as a single undo step.
+     */
+    record(label: string, operations: Operation[]) {
+        if (operations.length > 0) {
+            this.undoStack.push({ label, operations });
+            this.redoStack = [];
+        }
+    }
+
+    /**
+     * Undo the most recent undo step.
+     *
+     * Returns the label of the step undone, or `undefined` if there was nothing to undo.
+     * Throws if any part of the step couldn't be undone, in which case the step is dropped
+     * from the journal, as there's no longer a consistent way to redo it.
+     */
+    async undo(): Promise<string | undefined> {
+        return this.replay(this.undoStack, this.redoStack);
+    }
+
+    /**
+     * Redo the most recently undone step.
+     *
+     * Returns the label of the step redone, or `undefined` if there was nothing to redo.
+     */
+    async redo(): Promise<string | undefined> {
+        return this.replay(this.redoStack, this.undoStack);
+    }
+
+    private async replay(from: Entry[], to: Entry[]): Promise<string | undefined> {
+        const entry = from.pop();
+        if (entry === undefined) {
+            return undefined;
+        }
+        const inverse = entry.operations
+            .slice()
+            .reverse()
+            .map((operation) => this.invert(operation));
+        for (const operation of inverse) {
+            await apply(operation);
+        }
+        to.push({ label: entry.label, operations: inverse });
+        return entry.label;
+    }
+
+    private invert(operation: Operation): Operation {
+        switch (operation.kind) {
+            case OperationKind.Move:
+                return { kind: OperationKind.Move, from: operation.to, to: operation.from };
+            case OperationKind.Copy:
+                // The copy has to be kept for redoing it, whatever the setting says
+                return this.stage(operation.to);
+            case OperationKind.Delete:
+                return { kind: OperationKind.Restore, from: operation.to, to: operation.from };
+            case OperationKind.Restore:
+                return { kind: OperationKind.Delete, from: operation.to, to: operation.from };
+            case OperationKind.Erase:
+                throw new Error("Permanent deletes can't be undone");
+        }
+    }
+}
+
+/**
+ * A single undo step under construction. Nothing is added to the journal until
+ * [[`Transaction.commit`]] is called.
+ */
+export class Transaction {
+    private journal: Journal;
+    private label: string;
+    private operations: Operation[] = [];
+
+    constructor(journal: Journal, label: string) {
+        this.journal = journal;
+        this.label = label;
+    }
+
+    /**
+     * Apply an operation, and add it to the transaction if it succeeded.
+     */
+    async run(operation: Operation): Promise<boolean> {
+        try {
+            await apply(operation);
+            if (operation.kind !== OperationKind.Erase) {
+                this.operations.push(operation);
+            }
+            return true;
+        } catch {
+            return false;
+        }
+    }
+
+    /**
+     * Rename files within `folder`, given as pairs of old and new names.
+     *
+     * Renames onto a name in `occupied` (the names in the folder before renaming) go through
+     * a temporary name first, so that names can be swapped around. If the file can't then
+     * be given its new name, it gets its old name back, once the other renames are done if
+     * need be.
+     *
+     * Returns the files which couldn't be renamed, with the temporary names of any which
+     * couldn't be given their old names back either.
+     */
+    async renameAll(
+        folder: Uri,
+        renames: [string, string][],
+        occupied: Set<string>
+    ): Promise<RenameFailure[]> {
+        const failed: RenameFailure[] = [];
+        const moves: [Uri, Uri, string][] = [];
+        for (const [from, to] of renames) {
+            if (occupied.has(to)) {
+                const temporary = Uri.joinPath(folder, `.file-browser-${Date.now()}-${from}`);
+                const source = Uri.joinPath(folder, from);
+                if (await this.run({ kind: OperationKind.Move, from: source, to: temporary })) {
+                    moves.push([temporary, Uri.joinPath(folder, to), from]);
+                } else {
+                    failed.push({ name: from });
+                }
+            } else {
+                moves.push([Uri.joinPath(folder, from), Uri.joinPath(folder, to), from]);
+            }
+        }
+        const stranded: [Uri, string][] = [];
+        for (const [from, to, name] of moves) {
+            if (!(await this.run({ kind: OperationKind.Move, from, to }))) {
+                const original = Uri.joinPath(folder, name);
+                if (from.toString() === original.toString()) {
+                    failed.push({ name });
+                } else if (!(await this.run({ kind: OperationKind.Move, from, to: original }))) {
+                    // Its old name may still be taken by a file which hasn't been renamed yet
+                    stranded.push([from, name]);
+                } else {
+                    failed.push({ name });
+                }
+            }
+        }
+        for (const [from, name] of stranded) {
+            const original = Uri.joinPath(folder, name);
+            if (await this.run({ kind: OperationKind.Move, from, to: original })) {
+                failed.push({ name });
+            } else {
+                failed.push({ name, temporary: OSPath.posix.basename(from.path) });
+            }
+        }
+        return failed;
+    }
+
+    /**
+     * Add an operation which has already been performed to the transaction.
+     */
+    record(operation: Operation) {
+        this.operations.push(operation);
+    }
+
+    commit() {
+        this.journal.record(this.label, this.operations);
+    }
+}
+
+async function apply(operation: Operation): Promise<void> {
+    const fs = vscode.workspace.fs;
+    // Don't wait for the file system watchers to notice, the file browser lists it next
+    forgetPath(operation.from);
+    forgetPath(operation.to);
+    switch (operation.kind) {
+        case OperationKind.Copy:
+            await fs.copy(operation.from, operation.to, { overwrite: false });
+            break;
+        case OperationKind.Delete:
+        case OperationKind.Restore:
+            // The folder being moved into may not exist anymore, or may not exist yet
+            await fs.createDirectory(Uri.joinPath(operation.to, ".."));
+            await fs.rename(operation.from, operation.to, { overwrite: false });
+            break;
+        case OperationKind.Move:
+            await fs.rename(operation.from, operation.to, { overwrite: false });
+            break;
+        case OperationKind.Erase:
+            await fs.delete(operation.from, { recursive: true, useTrash: false });
+            break;
+    }
+}
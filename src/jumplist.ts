@@ -0,0 +1,81 @@
+import { Option, None, Some } from "@bodil/opt";
+import { Path } from "./path";
+
+export interface Jump {
+    folder: Path;
+    /**
+     * The item which was active when we left the folder.
+     */
+    file: Option<string>;
+}
+
+const maxJumps = 100;
+
+/**
+ * A vim style jump list of the folders visited, in order, which can be moved back and
+ * forward through.
+ */
+export class JumpList {
+    private jumps: Jump[] = [];
+    private index = -1;
+
+    private get current(): Jump | undefined {
+        return this.jumps[this.index];
+    }
+
+    /**
+     * Record a visit to `folder`, leaving the current folder with `leaving` as the active
+     * item.
+     *
+     * Visiting the folder we're already at does nothing. Visiting anywhere else after moving
+     * back through the list discards the jumps ahead of us.
+     */
+    visit(folder: Path, leaving: Option<string>) {
+        const current = this.current;
+        if (current !== undefined && current.folder.equals(folder)) {
+            return;
+        }
+        this.remember(leaving);
+        this.jumps = this.jumps.slice(0, this.index + 1);
+        this.jumps.push({ folder: folder.clone(), file: None });
+        if (this.jumps.length > maxJumps) {
+            this.jumps.shift();
+        }
+        this.index = this.jumps.length - 1;
+    }
+
+    /**
+     * Move back through the list, leaving the current folder with `leaving` as the active
+     * item.
+     */
+    back(leaving: Option<string>): Option<Jump> {
+        return this.move(-1, leaving);
+    }
+
+    /**
+     * Move forward through the list, leaving the current folder with `leaving` as the
+     * active item.
+     */
+    forward(leaving: Option<string>): Option<Jump> {
+        return this.move(1, leaving);
+    }
+
+    private move(step: number, leaving: Option<string>): Option<Jump> {
+        const target = this.jumps[this.index + step];
+        if (target === undefined) {
+            return None;
+        }
+        this.remember(leaving);
+        this.index += step;
+        return Some(target);
+    }
+
+    private remember(file: Option<string>) {
+        const current = this.current;
+        if (current !== undefined) {
+            file.ifSome((name) => {
+                current.file = Some(name);
+            });
+        }
+    }
+}
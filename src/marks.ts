@@ -0,0 +1,71 @@
+import { Memento, Uri } from "vscode";
+import { Option } from "@bodil/opt";
+import { Path } from "./path";
+
+export interface Mark {
+    /**
+     * The folder the mark points to, as a URI string.
+     */
+    folder: string;
+    /**
+     * The item which was active in the folder when the mark was set, if any.
+     */
+    file?: string;
+}
+
+const storageKey = "file-browser.marks";
+
+/**
+ * Vim style marks for folders, named by a single letter.
+ *
+ * As in vim, lowercase marks are local to the workspace, and uppercase marks are global.
+ */
+export class Marks {
+    private global: Memento;
+    private workspace: Memento;
+
+    constructor(global: Memento, workspace: Memento) {
+        this.global = global;
+        this.workspace = workspace;
+    }
+
+    static isMarkName(name: string): boolean {
+        return /^[a-zA-Z]$/.test(name);
+    }
+
+    private storeFor(name: string): Memento {
+        return name === name.toUpperCase() ? this.global : this.workspace;
+    }
+
+    private read(store: Memento): { [name: string]: Mark } {
+        return store.get(storageKey, {});
+    }
+
+    get(name: string): Option<Mark> {
+        return Option.from(this.read(this.storeFor(name))[name]);
+    }
+
+    async set(name: string, folder: Path, file?: string) {
+        const store = this.storeFor(name);
+        const mark: Mark = { folder: folder.id, file };
+        await store.update(storageKey, { ...this.read(store), [name]: mark });
+    }
+
+    /**
+     * List every mark, in alphabetical order with lowercase marks first.
+     */
+    all(): [string, Mark][] {
+        const marks = [
+            ...Object.entries(this.read(this.workspace)),
+            ...Object.entries(this.read(this.global)),
+        ];
+        const key = (name: string) => (name === name.toUpperCase() ? "1" : "0") + name;
+        return marks.sort(([left], [right]) =>
+            key(left) > key(right) ? 1 : key(left) === key(right) ? 0 : -1
+        );
+    }
+}
+
+export function markFolder(mark: Mark): Path {
+    return new Path(Uri.parse(mark.folder));
+}
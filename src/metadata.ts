@@ -0,0 +1,96 @@
+import * as vscode from "vscode";
+import { Uri, FileType } from "vscode";
+import * as FS from "fs";
+
+/**
+ * Format a file size the way `ls -h` would, in powers of 1024.
+ */
+export function formatSize(bytes: number): string {
+    const units = ["B", "KB", "MB", "GB", "TB"];
+    let size = bytes;
+    let unit = 0;
+    while (size >= 1024 && unit < units.length - 1) {
+        size /= 1024;
+        unit++;
+    }
+    return unit === 0 ? `${size} B` : `${size.toFixed(size < 10 ? 1 : 0)} ${units[unit]}`;
+}
+
+/**
+ * Format a time as how long ago it was, like "3 hours ago".
+ */
+export function formatAge(time: number, now = Date.now()): string {
+    const seconds = Math.round((now - time) / 1000);
+    if (seconds < 60) {
+        return "just now";
+    }
+    // Each unit, and how many of it make up the next one
+    const units: [string, number][] = [
+        ["minute", 60],
+        ["hour", 24],
+        ["day", 30],
+        ["month", 12],
+        ["year", Infinity],
+    ];
+    let value = seconds / 60;
+    let unit = 0;
+    while (value >= units[unit][1]) {
+        value /= units[unit][1];
+        unit++;
+    }
+    const count = Math.floor(value);
+    return `${count} ${units[unit][0]}${count === 1 ? "" : "s"} ago`;
+}
+
+/**
+ * Format Unix permission bits the way `ls -l` does, like `drwxr-xr-x`.
+ */
+export function formatMode(mode: number): string {
+    let bits = "-";
+    if ((mode & FS.constants.S_IFMT) === FS.constants.S_IFDIR) {
+        bits = "d";
+    } else if ((mode & FS.constants.S_IFMT) === FS.constants.S_IFLNK) {
+        bits = "l";
+    }
+    for (let shift = 6; shift >= 0; shift -= 3) {
+        bits += mode & (4 << shift) ? "r" : "-";
+        bits += mode & (2 << shift) ? "w" : "-";
+        bits += mode & (1 << shift) ? "x" : "-";
+    }
+    return bits;
+}
+
+/**
+ * Describe a file like a line of `ls -la`: its permissions, size, how long ago it was
+ * modified, and for a symlink, what it points to.
+ *
+ * Permissions and link targets are only available for local files; for other file systems
+ * the rest comes from VS Code's own `stat`.
+ */
+export async function describeFile(uri: Uri): Promise<string> {
+    const parts: string[] = [];
+    if (uri.scheme === "file") {
+        const stat = await FS.promises.lstat(uri.fsPath);
+        parts.push(formatMode(stat.mode));
+        if (stat.isSymbolicLink()) {
+            const target = await FS.promises.readlink(uri.fsPath);
+            const targetStat = await FS.promises.stat(uri.fsPath).catch(() => undefined);
+            if (targetStat !== undefined && !targetStat.isDirectory()) {
+                parts.push(formatSize(targetStat.size));
+            }
+            parts.push(formatAge(stat.mtimeMs), `→ ${target}`);
+        } else {
+            if (!stat.isDirectory()) {
+                parts.push(formatSize(stat.size));
+            }
+            parts.push(formatAge(stat.mtimeMs));
+        }
+    } else {
+        const stat = await vscode.workspace.fs.stat(uri);
+        if ((stat.type & FileType.Directory) !== FileType.Directory) {
+            parts.push(formatSize(stat.size));
+        }
+        parts.push(formatAge(stat.mtime));
+    }
+    return parts.join("  ");
+}
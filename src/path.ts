@@ -1,8 +1,15 @@
 import * as vscode from "vscode";
 import { Uri, WorkspaceFolder, FileStat, FileType, FileSystemError } from "vscode";
+import * as OS from "os";
 import * as OSPath from "path";
 import { Option, None, Some, Result, Err, Ok } from "@bodil/opt";
 
+/**
+ * A path on any file system VS Code can reach, local or not.
+ *
+ * Paths are handled using the URI's own path, which always uses `/` as a separator whatever
+ * the scheme, rather than the local file system's idea of a path.
+ */
 export class Path {
     private pathUri: Uri;
 
@@ -14,6 +21,23 @@ export class Path {
         return new Path(Uri.file(filePath));
     }
 
+    /**
+     * Get the home folder for the file system `path` resides in: the user's home folder
+     * for local files, or the first workspace folder on the same file system, or failing
+     * that its root.
+     */
+    static home(path: Path): Path {
+        if (path.uri.scheme === "file") {
+            return Path.fromFilePath(OS.homedir());
+        }
+        const workspaceFolder = (vscode.workspace.workspaceFolders || []).find(
+            (folder) =>
+                folder.uri.scheme === path.uri.scheme &&
+                folder.uri.authority === path.uri.authority
+        );
+        return new Path(workspaceFolder?.uri || path.root());
+    }
+
     get uri(): Uri {
         return this.pathUri;
     }
@@ -51,14 +75,19 @@ export class Path {
      * Test if the path is at its root.
      */
     atTop(): boolean {
-        return this.pathUri === Uri.joinPath(this.pathUri, "..");
+        const path = this.pathUri.path;
+        return path === "" || path === "/" || /^\/[a-zA-Z]:\/?$/.test(path);
     }
 
     /**
      * Get the root of the file system the [[Path]] resides in.
+     *
+     * This is `/`, except for Windows style paths, where the drive letter is part of the
+     * root.
      */
     root(): Uri {
-        return this.pathUri.with({ path: "/" });
+        const drive = /^\/[a-zA-Z]:/.exec(this.pathUri.path);
+        return this.pathUri.with({ path: drive ? `${drive[0]}/` : "/" });
     }
 
     /**
@@ -75,7 +104,10 @@ export class Path {
      * Use [[`Path.atTop`]] to check whether a path has a parent.
      */
     parent(): Path {
-        return this.append("..");
+        if (this.atTop()) {
+            return this.clone();
+        }
+        return new Path(this.pathUri.with({ path: OSPath.posix.dirname(this.pathUri.path) }));
     }
 
     /**
@@ -94,20 +126,24 @@ export class Path {
         if (this.atTop()) {
             return None;
         }
-        const current = new Path(this.pathUri);
-        this.pathUri = Uri.joinPath(this.pathUri, "..");
-        return current.relativeTo(this.pathUri);
+        const name = OSPath.posix.basename(this.pathUri.path);
+        this.pathUri = this.parent().uri;
+        return Some(name);
     }
 
     getWorkspaceFolder(): Option<WorkspaceFolder> {
         return Option.from(vscode.workspace.getWorkspaceFolder(this.pathUri));
     }
 
+    /**
+     * Get the path from `other` to this path, with `/` as the separator, or [[None]] if
+     * they're on different file systems.
+     */
     relativeTo(other: Uri): Option<string> {
         if (this.pathUri.authority !== other.authority || this.pathUri.scheme !== other.scheme) {
             return None;
         }
-        const relPath = OSPath.relative(other.fsPath, this.pathUri.fsPath);
+        const relPath = OSPath.posix.relative(other.path, this.pathUri.path);
         return Some(relPath);
     }
 
@@ -118,7 +154,7 @@ export class Path {
     async isDir(): Promise<boolean> {
         const stat = await this.stat();
         return stat.match(
-            (stat) => !!(stat.type | FileType.Directory),
+            (stat) => !!(stat.type & FileType.Directory),
             () => false
         );
     }
@@ -126,7 +162,7 @@ export class Path {
     async isFile(): Promise<boolean> {
         const stat = await this.stat();
         return stat.match(
-            (stat) => !!(stat.type | FileType.File),
+            (stat) => !!(stat.type & FileType.File),
             () => false
         );
     }
@@ -0,0 +1,113 @@
+import * as vscode from "vscode";
+import { Uri, FileType, Tab, TabInputText, TabInputCustom } from "vscode";
+import { Path } from "./path";
+import { readSortedDirectory } from "./fileitem";
+
+export const folderPreviewScheme = "file-browser-preview";
+
+/**
+ * Shows a summary of a folder's contents, for previewing folders.
+ */
+export class FolderPreviewProvider implements vscode.TextDocumentContentProvider {
+    async provideTextDocumentContent(uri: Uri): Promise<string> {
+        const folder = Uri.parse(uri.query);
+        const records = await readSortedDirectory(folder);
+        const folders = records.filter(([, type]) => (type & FileType.Directory) !== 0).length;
+        const files = records.length - folders;
+        const lines = records.map(([name, type]) =>
+            (type & FileType.Directory) !== 0 ? `${name}/` : name
+        );
+        const plural = (count: number, name: string) =>
+            `${count} ${name}${count === 1 ? "" : "s"}`;
+        return [
+            folder.fsPath,
+            `${plural(folders, "folder")}, ${plural(files, "file")}`,
+            "",
+            ...lines,
+        ].join("\n");
+    }
+}
+
+function folderPreviewUri(folder: Uri): Uri {
+    return Uri.from({
+        scheme: folderPreviewScheme,
+        path: `/${new Path(folder).pop().getOr(folder.path)}`,
+        query: folder.toString(),
+    });
+}
+
+/**
+ * Get the URI of the file open in a tab, for text editors and custom editors like the image
+ * preview.
+ */
+function tabUri(tab: Tab): Uri | undefined {
+    if (tab.input instanceof TabInputText || tab.input instanceof TabInputCustom) {
+        return tab.input.uri;
+    }
+    return undefined;
+}
+
+function isOpen(uri: Uri): boolean {
+    return vscode.window.tabGroups.all.some((group) =>
+        group.tabs.some((tab) => tabUri(tab)?.toString() === uri.toString())
+    );
+}
+
+/**
+ * Previews files in a preview editor as the user moves through the file browser, without
+ * taking the focus away from it.
+ */
+export class Preview {
+    /**
+     * The editors we've opened which weren't open before, so we can close them again.
+     */
+    private opened: Set<string> = new Set();
+    private timer?: NodeJS.Timeout;
+
+    /**
+     * Preview `uri`, after a short delay so that moving quickly through a folder doesn't
+     * open every file on the way.
+     */
+    show(uri: Uri, isFolder: boolean) {
+        this.cancel();
+        this.timer = setTimeout(() => {
+            this.timer = undefined;
+            const target = isFolder ? folderPreviewUri(uri) : uri;
+            if (!isOpen(target)) {
+                this.opened.add(target.toString());
+            }
+            vscode.commands.executeCommand("vscode.open", target, {
+                preview: true,
+                preserveFocus: true,
+            });
+        }, 100);
+    }
+
+    cancel() {
+        if (this.timer !== undefined) {
+            clearTimeout(this.timer);
+            this.timer = undefined;
+        }
+    }
+
+    /**
+     * Leave the editors opened for previewing open, as when the user opens a file.
+     */
+    keep() {
+        this.cancel();
+        this.opened.clear();
+    }
+
+    /**
+     * Close the editors opened for previewing, unless the user has since made them into
+     * regular editors.
+     */
+    async close() {
+        this.cancel();
+        const tabs = vscode.window.tabGroups.all.flatMap((group) =>
+            group.tabs.filter((tab) => tab.isPreview && this.opened.has(String(tabUri(tab))))
+        );
+        this.opened.clear();
+        await vscode.window.tabGroups.close(tabs);
+    }
+}
@@ -0,0 +1,79 @@
+import { Uri } from "vscode";
+import * as OSPath from "path";
+import { Path } from "./path";
+
+export enum RegisterMode {
+    Yank,
+    Cut,
+}
+
+/**
+ * A pending copy or move of `from` into `to`.
+ */
+export interface Transfer {
+    from: Uri;
+    to: Uri;
+}
+
+/**
+ * A vim style register holding files which have been yanked or cut, waiting to be pasted
+ * somewhere else.
+ */
+export class Register {
+    mode: RegisterMode = RegisterMode.Yank;
+    uris: Uri[] = [];
+
+    get isEmpty(): boolean {
+        return this.uris.length === 0;
+    }
+
+    set(mode: RegisterMode, uris: Uri[]) {
+        this.mode = mode;
+        this.uris = uris;
+    }
+
+    /**
+     * Work out where each file in the register should end up when pasted into `target`.
+     *
+     * Files being moved into the folder they're already in are skipped. Files pasted into
+     * a folder which already has a file by that name, or which another file in the register
+     * is going to, get a free name in the style of the VS Code explorer, ie. `name copy.ext`,
+     * `name copy 2.ext` etc.
+     */
+    async transfers(target: Path): Promise<Transfer[]> {
+        const result: Transfer[] = [];
+        const taken = new Set<string>();
+        for (const from of this.uris) {
+            const name = OSPath.posix.basename(from.path);
+            let to = target.append(name);
+            if (to.equals(new Path(from)) && this.mode === RegisterMode.Cut) {
+                continue;
+            }
+            if (taken.has(to.id) || (await exists(to))) {
+                to = await freeName(target, name, taken);
+            }
+            taken.add(to.id);
+            result.push({ from, to: to.uri });
+        }
+        return result;
+    }
+}
+
+async function exists(path: Path): Promise<boolean> {
+    return (await path.stat()).isOk();
+}
+
+async function freeName(folder: Path, name: string, taken: Set<string>): Promise<Path> {
+    const extension = OSPath.extname(name);
+    const base = name.slice(0, name.length - extension.length);
+    let candidate = folder.append(`${base} copy${extension}`);
+    for (let counter = 2; taken.has(candidate.id) || (await exists(candidate)); counter++) {
+        candidate = folder.append(`${base} copy ${counter}${extension}`);
+    }
+    return candidate;
+}
+
+export function describeTransfer(mode: RegisterMode, count: number): string {
+    const items = count === 1 ? "item" : "items";
+    return mode === RegisterMode.Yank ? `Copied ${count} ${items}` : `Moved ${count} ${items}`;
+}
@@ -0,0 +1,112 @@
+import * as vscode from "vscode";
+import { Uri, FileType } from "vscode";
+import * as OSPath from "path";
+import { config, ConfigItem } from "./extension";
+
+export enum SortOrder {
+    Name = "name",
+    Modified = "modified",
+    Size = "size",
+    Extension = "extension",
+}
+
+const sortOrders = [SortOrder.Name, SortOrder.Modified, SortOrder.Size, SortOrder.Extension];
+
+export interface Sort {
+    order: SortOrder;
+    reverse: boolean;
+    directoriesFirst: boolean;
+}
+
+/**
+ * The sort to use for folders the user hasn't chosen one for, from the settings.
+ */
+export function defaultSort(): Sort {
+    const order = config<SortOrder>(ConfigItem.SortOrder);
+    return {
+        order: order !== undefined && sortOrders.includes(order) ? order : SortOrder.Name,
+        reverse: false,
+        directoriesFirst: config<boolean>(ConfigItem.DirectoriesFirst) ?? true,
+    };
+}
+
+/**
+ * The sort order after `order`, going round to the first again after the last.
+ */
+export function nextSortOrder(order: SortOrder): SortOrder {
+    return sortOrders[(sortOrders.indexOf(order) + 1) % sortOrders.length];
+}
+
+export function describeSort(sort: Sort): string {
+    const names = {
+        [SortOrder.Name]: "name",
+        [SortOrder.Modified]: "newest first",
+        [SortOrder.Size]: "largest first",
+        [SortOrder.Extension]: "extension",
+    };
+    return [
+        `Sorted by ${names[sort.order]}`,
+        sort.reverse ? "reversed" : undefined,
+        sort.directoriesFirst ? "folders first" : undefined,
+    ]
+        .filter((part) => part !== undefined)
+        .join(", ");
+}
+
+const collator = new Intl.Collator(undefined, { numeric: true, sensitivity: "base" });
+
+/**
+ * Compare names naturally, so that `file2` comes before `file10`, ignoring case.
+ */
+export function naturalCompare(left: string, right: string): number {
+    return collator.compare(left, right);
+}
+
+function isDirectory(fileType: FileType): boolean {
+    return (fileType & FileType.Directory) === FileType.Directory;
+}
+
+/**
+ * Sort the entries of `folder`, as returned by `readDirectory`.
+ *
+ * Sorting by modification time or size needs to `stat` every entry; entries which can't be
+ * read sort as if they were empty and infinitely old. Ties are broken by name.
+ */
+export async function sortRecords(
+    folder: Uri,
+    records: [string, FileType][],
+    sort: Sort
+): Promise<[string, FileType][]> {
+    const keys = new Map<string, number>();
+    if (sort.order === SortOrder.Modified || sort.order === SortOrder.Size) {
+        await Promise.all(
+            records.map(async ([name]) => {
+                try {
+                    const stat = await vscode.workspace.fs.stat(Uri.joinPath(folder, name));
+                    keys.set(name, sort.order === SortOrder.Modified ? stat.mtime : stat.size);
+                } catch {
+                    keys.set(name, 0);
+                }
+            })
+        );
+    }
+    const compare = ([leftName]: [string, FileType], [rightName]: [string, FileType]) => {
+        switch (sort.order) {
+            case SortOrder.Modified:
+            case SortOrder.Size:
+                // Newest and largest first, as that's what you usually want to see
+                return (keys.get(rightName) || 0) - (keys.get(leftName) || 0);
+            case SortOrder.Extension:
+                return naturalCompare(OSPath.extname(leftName), OSPath.extname(rightName));
+            default:
+                return 0;
+        }
+    };
+    const direction = sort.reverse ? -1 : 1;
+    return records.slice().sort((left, right) => {
+        if (sort.directoriesFirst && isDirectory(left[1]) !== isDirectory(right[1])) {
+            return isDirectory(left[1]) ? -1 : 1;
+        }
+        return direction * (compare(left, right) || naturalCompare(left[0], right[0]));
+    });
+}
@@ -0,0 +1,149 @@
+import * as vscode from "vscode";
+import { Uri, FileType } from "vscode";
+import * as OSPath from "path";
+import { Path } from "./path";
+import { matchGlob } from "./glob";
+import { config, ConfigItem } from "./extension";
+
+export interface Template {
+    label: string;
+    /**
+     * A glob pattern for the files the template applies to.
+     */
+    pattern: string;
+    content: string;
+    /**
+     * Where the template was found, for display.
+     */
+    source: string;
+}
+
+/**
+ * A template as given in the `file-browser.templates` setting.
+ */
+interface TemplateSetting {
+    pattern: string;
+    content: string | string[];
+    label?: string;
+}
+
+export const templateFolder = ".vscode/file-templates";
+
+function templatesFromSettings(): Template[] {
+    const settings: TemplateSetting[] = config(ConfigItem.Templates) || [];
+    return settings
+        .filter((setting) => typeof setting.pattern === "string")
+        .map((setting) => ({
+            label: setting.label || setting.pattern,
+            pattern: setting.pattern,
+            content: Array.isArray(setting.content)
+                ? setting.content.join("\n")
+                : setting.content || "",
+            source: "settings",
+        }));
+}
+
+/**
+ * Read the templates in the workspace's template folder. A template file applies to files
+ * with the same extension, so that `component.tsx` is used for `*.tsx` files, and
+ * `unit.test.ts` for `*.test.ts` files.
+ */
+async function templatesFromFolder(workspaceFolder: Uri): Promise<Template[]> {
+    const folder = Uri.joinPath(workspaceFolder, templateFolder);
+    let records: [string, FileType][];
+    try {
+        records = await vscode.workspace.fs.readDirectory(folder);
+    } catch {
+        return [];
+    }
+    const templates: Template[] = [];
+    for (const [name, fileType] of records) {
+        const dot = name.indexOf(".", 1);
+        if ((fileType & FileType.File) !== FileType.File || dot < 0) {
+            continue;
+        }
+        const content = await vscode.workspace.fs.readFile(Uri.joinPath(folder, name));
+        templates.push({
+            label: name.slice(0, dot),
+            pattern: `*${name.slice(dot)}`,
+            content: content.toString(),
+            source: `${templateFolder}/${name}`,
+        });
+    }
+    return templates;
+}
+
+/**
+ * Get the path of `uri` relative to its workspace folder, with `/` separators, or just its
+ * file name if it's outside the workspace.
+ */
+function workspaceRelativePath(uri: Uri): string {
+    const path = new Path(uri);
+    return path
+        .getWorkspaceFolder()
+        .chain((folder) => path.relativeTo(folder.uri))
+        .getOr(OSPath.posix.basename(uri.path));
+}
+
+/**
+ * Find the templates which apply to a new file at `uri`.
+ */
+export async function findTemplates(uri: Uri): Promise<Template[]> {
+    const workspaceFolder = new Path(uri).getWorkspaceFolder().map((folder) => folder.uri);
+    const relativePath = workspaceRelativePath(uri);
+    const folderTemplates = await workspaceFolder.match(
+        (folder) => templatesFromFolder(folder),
+        async () => []
+    );
+    return [...templatesFromSettings(), ...folderTemplates].filter((template) =>
+        matchGlob(template.pattern, relativePath)
+    );
+}
+
+/**
+ * Fill in the variables in a template for a new file at `uri`.
+ *
+ * The variables are `${name}` for the file name without its extension, `${fileName}` for the
+ * whole file name, `${ext}` for the extension without the dot, `${relativePath}` for the
+ * path relative to its workspace folder, and `${date}` and `${year}` for the current date.
+ */
+export function expandTemplate(template: Template, uri: Uri): string {
+    const fileName = OSPath.posix.basename(uri.path);
+    const extension = OSPath.extname(fileName);
+    const now = new Date();
+    const pad = (value: number) => String(value).padStart(2, "0");
+    const variables: { [variable: string]: string } = {
+        name: fileName.slice(0, fileName.length - extension.length),
+        fileName,
+        ext: extension.slice(1),
+        relativePath: workspaceRelativePath(uri),
+        date: `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`,
+        year: String(now.getFullYear()),
+    };
+    return template.content.replace(/\$\{(\w+)\}/g, (match, variable: string) =>
+        Object.prototype.hasOwnProperty.call(variables, variable) ? variables[variable] : match
+    );
+}
+
+/**
+ * Ask which of several templates to use. Resolves to `undefined` if the user wants an
+ * empty file, or cancels.
+ */
+export async function chooseTemplate(
+    templates: Template[],
+    fileName: string
+): Promise<Template | undefined> {
+    const empty = { label: "$(file) Empty file", template: undefined };
+    const choice = await vscode.window.showQuickPick(
+        [
+            ...templates.map((template) => ({
+                label: `$(file-code) ${template.label}`,
+                description: template.source,
+                template,
+            })),
+            empty,
+        ],
+        { placeHolder: `Choose a template for "${fileName}"` }
+    );
+    return choice?.template;
+}
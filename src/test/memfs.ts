@@ -0,0 +1,213 @@
+import * as vscode from "vscode";
+import { Uri, FileType, FileStat, FileSystemError, FileChangeType } from "vscode";
+import * as OSPath from "path";
+
+class File implements FileStat {
+    type = FileType.File;
+    ctime = Date.now();
+    mtime = Date.now();
+    data: Uint8Array;
+
+    constructor(data: Uint8Array = new Uint8Array()) {
+        this.data = data;
+    }
+
+    get size(): number {
+        return this.data.byteLength;
+    }
+}
+
+class Folder implements FileStat {
+    type = FileType.Directory;
+    ctime = Date.now();
+    mtime = Date.now();
+    size = 0;
+    entries: Map<string, File | Folder> = new Map();
+}
+
+/**
+ * The scheme the in-memory file system is registered under.
+ */
+export const scheme = "memfs";
+
+/**
+ * A file system kept in memory, to test against something which isn't the local disk.
+ *
+ * It counts the calls made to it by name, so tests can check what was asked of it.
+ */
+export class MemFS implements vscode.FileSystemProvider {
+    private root = new Folder();
+    private changes = new vscode.EventEmitter<vscode.FileChangeEvent[]>();
+    readonly onDidChangeFile = this.changes.event;
+    readonly calls: Map<string, number> = new Map();
+
+    /**
+     * Make a URI for `path` on this file system.
+     */
+    static uri(path: string): Uri {
+        return Uri.from({ scheme, path });
+    }
+
+    /**
+     * Delete everything, and forget the calls counted.
+     */
+    clear() {
+        this.root = new Folder();
+        this.calls.clear();
+    }
+
+    /**
+     * Make the folders and empty files `paths`, folders ending with `/`, without counting
+     * any calls or reporting any changes, to start a test off with.
+     */
+    seed(...paths: string[]) {
+        for (const path of paths) {
+            const names = path.split("/").filter((name) => name !== "");
+            const fileName = path.endsWith("/") ? undefined : names.pop();
+            let folder = this.root;
+            for (const name of names) {
+                let next = folder.entries.get(name);
+                if (!(next instanceof Folder)) {
+                    next = new Folder();
+                    folder.entries.set(name, next);
+                }
+                folder = next;
+            }
+            if (fileName !== undefined) {
+                folder.entries.set(fileName, new File());
+            }
+        }
+    }
+
+    private count(name: string) {
+        this.calls.set(name, (this.calls.get(name) || 0) + 1);
+    }
+
+    private find(uri: Uri): File | Folder {
+        let entry: File | Folder = this.root;
+        for (const name of uri.path.split("/").filter((name) => name !== "")) {
+            const next: File | Folder | undefined =
+                entry instanceof Folder ? entry.entries.get(name) : undefined;
+            if (next === undefined) {
+                throw FileSystemError.FileNotFound(uri);
+            }
+            entry = next;
+        }
+        return entry;
+    }
+
+    private findFolder(uri: Uri): Folder {
+        const entry = this.find(uri);
+        if (!(entry instanceof Folder)) {
+            throw FileSystemError.FileNotADirectory(uri);
+        }
+        return entry;
+    }
+
+    private parent(uri: Uri): Folder {
+        return this.findFolder(uri.with({ path: OSPath.posix.dirname(uri.path) }));
+    }
+
+    private fire(type: FileChangeType, ...uris: Uri[]) {
+        this.changes.fire(uris.map((uri) => ({ type, uri })));
+    }
+
+    watch(): vscode.Disposable {
+        // Every change is reported, whatever's being watched
+        return new vscode.Disposable(() => undefined);
+    }
+
+    stat(uri: Uri): FileStat {
+        this.count("stat");
+        return this.find(uri);
+    }
+
+    readDirectory(uri: Uri): [string, FileType][] {
+        this.count("readDirectory");
+        return [...this.findFolder(uri).entries].map(([name, entry]) => [name, entry.type]);
+    }
+
+    createDirectory(uri: Uri) {
+        this.count("createDirectory");
+        const parent = this.parent(uri);
+        const name = OSPath.posix.basename(uri.path);
+        if (parent.entries.has(name)) {
+            throw FileSystemError.FileExists(uri);
+        }
+        parent.entries.set(name, new Folder());
+        parent.mtime = Date.now();
+        this.fire(FileChangeType.Created, uri);
+    }
+
+    readFile(uri: Uri): Uint8Array {
+        this.count("readFile");
+        const entry = this.find(uri);
+        if (!(entry instanceof File)) {
+            throw FileSystemError.FileIsADirectory(uri);
+        }
+        return entry.data;
+    }
+
+    writeFile(uri: Uri, content: Uint8Array, options: { create: boolean; overwrite: boolean }) {
+        this.count("writeFile");
+        const parent = this.parent(uri);
+        const name = OSPath.posix.basename(uri.path);
+        const entry = parent.entries.get(name);
+        if (entry instanceof Folder) {
+            throw FileSystemError.FileIsADirectory(uri);
+        } else if (entry === undefined && !options.create) {
+            throw FileSystemError.FileNotFound(uri);
+        } else if (entry !== undefined && !options.overwrite) {
+            throw FileSystemError.FileExists(uri);
+        }
+        if (entry === undefined) {
+            parent.entries.set(name, new File(content));
+            parent.mtime = Date.now();
+            this.fire(FileChangeType.Created, uri);
+        } else {
+            entry.data = content;
+            entry.mtime = Date.now();
+            this.fire(FileChangeType.Changed, uri);
+        }
+    }
+
+    delete(uri: Uri) {
+        this.count("delete");
+        const parent = this.parent(uri);
+        const name = OSPath.posix.basename(uri.path);
+        if (!parent.entries.delete(name)) {
+            throw FileSystemError.FileNotFound(uri);
+        }
+        parent.mtime = Date.now();
+        this.fire(FileChangeType.Deleted, uri);
+    }
+
+    rename(oldUri: Uri, newUri: Uri, options: { overwrite: boolean }) {
+        this.count("rename");
+        const entry = this.find(oldUri);
+        const parent = this.parent(newUri);
+        const name = OSPath.posix.basename(newUri.path);
+        if (parent.entries.has(name) && !options.overwrite) {
+            throw FileSystemError.FileExists(newUri);
+        }
+        this.parent(oldUri).entries.delete(OSPath.posix.basename(oldUri.path));
+        parent.entries.set(name, entry);
+        parent.mtime = Date.now();
+        this.fire(FileChangeType.Deleted, oldUri);
+        this.fire(FileChangeType.Created, newUri);
+    }
+}
+
+let registered: MemFS | undefined;
+
+/**
+ * Register the in-memory file system, once for all the tests, and start it off empty.
+ */
+export function useMemFS(): MemFS {
+    if (registered === undefined) {
+        registered = new MemFS();
+        vscode.workspace.registerFileSystemProvider(scheme, registered, { isCaseSensitive: true });
+    }
+    registered.clear();
+    return registered;
+}
@@ -0,0 +1,21 @@
+import * as path from "path";
+import { runTests } from "@vscode/test-electron";
+
+async function main() {
+    try {
+        // The folder containing the extension's package.json
+        const extensionDevelopmentPath = path.resolve(__dirname, "../../");
+        // The test runner, which VS Code loads in place of the extension's own entry point
+        const extensionTestsPath = path.resolve(__dirname, "./suite/index");
+        await runTests({
+            extensionDevelopmentPath,
+            extensionTestsPath,
+            launchArgs: ["--disable-extensions"],
+        });
+    } catch (error) {
+        console.error("Failed to run tests", error);
+        process.exit(1);
+    }
+}
+
+main();
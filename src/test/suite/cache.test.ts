@@ -0,0 +1,65 @@
+import * as assert from "assert";
+import { FileType } from "vscode";
+import { Path } from "../../path";
+import { clearListings, fileType, forgetPath, listDirectory } from "../../cache";
+import { MemFS, useMemFS } from "../memfs";
+
+suite("Listing cache", () => {
+    let memfs: MemFS;
+
+    setup(() => {
+        memfs = useMemFS();
+        clearListings();
+        memfs.seed("/folder/file.txt");
+    });
+
+    suiteTeardown(() => {
+        clearListings();
+    });
+
+    test("repeat visits don't read the folder again", async () => {
+        const folder = new Path(MemFS.uri("/folder"));
+        const first = await listDirectory(folder);
+        const second = await listDirectory(folder);
+        assert.deepStrictEqual(second, first);
+        assert.deepStrictEqual(second, [["file.txt", FileType.File]]);
+        assert.strictEqual(memfs.calls.get("readDirectory"), 1);
+    });
+
+    test("walking a tree uses the listings but doesn't keep them", async () => {
+        const folder = new Path(MemFS.uri("/folder"));
+        await listDirectory(folder, false);
+        await listDirectory(folder, false);
+        assert.strictEqual(memfs.calls.get("readDirectory"), 2);
+        await listDirectory(folder);
+        await listDirectory(folder, false);
+        assert.strictEqual(memfs.calls.get("readDirectory"), 3);
+    });
+
+    test("a forgotten folder is read again", async () => {
+        const folder = new Path(MemFS.uri("/folder"));
+        await listDirectory(folder);
+        forgetPath(folder.append("file.txt").uri);
+        await listDirectory(folder);
+        assert.strictEqual(memfs.calls.get("readDirectory"), 2);
+    });
+
+    test("fileType() forgets the listing of a folder which is now a file", async () => {
+        const folder = new Path(MemFS.uri("/folder"));
+        await listDirectory(folder);
+        assert.strictEqual(await fileType(folder), FileType.Directory);
+        // Behind the watcher's back
+        memfs.clear();
+        memfs.seed("/folder");
+        assert.strictEqual(await fileType(folder), FileType.File);
+        await assert.rejects(listDirectory(folder));
+    });
+
+    test("fileType() forgets the listing of a folder which is gone", async () => {
+        const folder = new Path(MemFS.uri("/folder"));
+        await listDirectory(folder);
+        memfs.clear();
+        assert.strictEqual(await fileType(folder), undefined);
+        await assert.rejects(listDirectory(folder));
+    });
+});
@@ -0,0 +1,64 @@
+import * as assert from "assert";
+import { diffListing } from "../../editdir";
+
+suite("diffListing", () => {
+    test("an unchanged listing changes nothing", () => {
+        assert.deepStrictEqual(diffListing(["a", "b/"], ["a", "b/"]), {
+            renames: [],
+            deletes: [],
+            creates: [],
+        });
+    });
+
+    test("lines edited in place are renames", () => {
+        assert.deepStrictEqual(diffListing(["a", "b", "c"], ["x", "y", "c"]), {
+            renames: [
+                ["a", "x"],
+                ["b", "y"],
+            ],
+            deletes: [],
+            creates: [],
+        });
+    });
+
+    test("renamed folders lose their trailing slash", () => {
+        assert.deepStrictEqual(diffListing(["a/", "b"], ["x/", "b"]).renames, [["a", "x"]]);
+    });
+
+    test("inserted lines are creates", () => {
+        assert.deepStrictEqual(diffListing(["a", "c"], ["a", "b", "c", "d/"]), {
+            renames: [],
+            deletes: [],
+            creates: ["b", "d/"],
+        });
+    });
+
+    test("deleted lines are deletes", () => {
+        assert.deepStrictEqual(diffListing(["a", "b/", "c"], ["c"]), {
+            renames: [],
+            deletes: ["a", "b/"],
+            creates: [],
+        });
+    });
+
+    test("a line added and another deleted don't rename anything in between", () => {
+        const deleted = { renames: [], deletes: ["b"], creates: ["x"] };
+        assert.deepStrictEqual(diffListing(["a", "b", "c"], ["x", "a", "c"]), deleted);
+        assert.deepStrictEqual(diffListing(["a", "b", "c"], ["a", "c", "x"]), deleted);
+        assert.deepStrictEqual(diffListing(["a", "b", "c", "d"], ["a", "c", "d", "x"]), deleted);
+    });
+
+    test("a line edited onto a name still listed isn't a rename", () => {
+        assert.deepStrictEqual(diffListing(["a", "b"], ["b", "c"]), {
+            renames: [],
+            deletes: ["a"],
+            creates: ["c"],
+        });
+    });
+
+    test("reordered lines change nothing", () => {
+        const nothing = { renames: [], deletes: [], creates: [] };
+        assert.deepStrictEqual(diffListing(["a", "b"], ["b", "a"]), nothing);
+        assert.deepStrictEqual(diffListing(["a", "b", "c"], ["c", "a", "b"]), nothing);
+    });
+});
@@ -0,0 +1,116 @@
+import * as assert from "assert";
+import * as FS from "fs";
+import * as OS from "os";
+import * as OSPath from "path";
+import { FileType } from "vscode";
+import { Path } from "../../path";
+import { FileItem } from "../../fileitem";
+import { Rules, clearRulesCache } from "../../filter";
+
+/**
+ * Write out a tree of files under `root`, given their contents by relative path.
+ */
+function writeTree(root: string, files: { [path: string]: string }) {
+    for (const [path, content] of Object.entries(files)) {
+        const file = OSPath.join(root, ...path.split("/"));
+        FS.mkdirSync(OSPath.dirname(file), { recursive: true });
+        FS.writeFileSync(file, content);
+    }
+}
+
+/**
+ * Find which of the files `names` in `folder` the rules there ignore.
+ */
+async function ignored(folder: string, names: string[]): Promise<string[]> {
+    const path = Path.fromFilePath(folder);
+    const rules = await Rules.forPath(path);
+    const items = names.map((name) => new FileItem([name, FileType.File]));
+    return rules
+        .filter(path, items)
+        .filter((item) => !item.alwaysShow)
+        .map((item) => item.name);
+}
+
+suite("Rules", () => {
+    const environment = { ...process.env };
+    let root: string;
+
+    suiteSetup(() => {
+        root = FS.mkdtempSync(OSPath.join(OS.tmpdir(), "file-browser-"));
+        // Keep the user's own git configuration out of it, with a global excludes file of
+        // our own
+        writeTree(root, {
+            "gitconfig": `[core]\n\texcludesFile = ${OSPath.join(root, "global-ignore")}\n`,
+            "global-ignore": "*.log\n",
+        });
+        process.env.GIT_CONFIG_GLOBAL = OSPath.join(root, "gitconfig");
+        process.env.GIT_CONFIG_NOSYSTEM = "1";
+        clearRulesCache();
+    });
+
+    suiteTeardown(() => {
+        process.env = environment;
+        clearRulesCache();
+        FS.rmSync(root, { recursive: true, force: true });
+    });
+
+    test("a negation in a nested folder overrides the rule above it", async () => {
+        const repository = OSPath.join(root, "nested");
+        writeTree(repository, {
+            ".git/HEAD": "ref: refs/heads/main\n",
+            ".gitignore": "*.gen.ts\n",
+            "src/.gitignore": "!api.gen.ts\n",
+            "src/api.gen.ts": "",
+            "src/other.gen.ts": "",
+        });
+        const names = ["api.gen.ts", "other.gen.ts"];
+        assert.deepStrictEqual(await ignored(repository, names), names);
+        const src = OSPath.join(repository, "src");
+        assert.deepStrictEqual(await ignored(src, names), ["other.gen.ts"]);
+    });
+
+    test("ignore files beat .git/info/exclude, which beats core.excludesFile", async () => {
+        const repository = OSPath.join(root, "precedence");
+        writeTree(repository, {
+            ".git/info/exclude": "!keep.log\n*.tmp\n",
+            ".gitignore": "!wanted.tmp\n",
+            "debug.log": "",
+            "keep.log": "",
+            "scratch.tmp": "",
+            "wanted.tmp": "",
+        });
+        const names = ["debug.log", "keep.log", "scratch.tmp", "wanted.tmp"];
+        assert.deepStrictEqual(await ignored(repository, names), ["debug.log", "scratch.tmp"]);
+    });
+
+    test("a submodule, where .git is a file, starts its own rules", async () => {
+        const repository = OSPath.join(root, "super");
+        writeTree(repository, {
+            ".git/info/exclude": "*.md\n",
+            ".gitignore": "*.txt\n",
+            "sub/.git": "gitdir: ../.git/modules/sub\n",
+            "sub/.gitignore": "*.out\n",
+            "sub/notes.txt": "",
+            "sub/notes.md": "",
+            "sub/debug.log": "",
+            "sub/a.out": "",
+        });
+        const names = ["notes.txt", "notes.md", "debug.log", "a.out"];
+        const submodule = OSPath.join(repository, "sub");
+        assert.deepStrictEqual(await ignored(submodule, names), ["debug.log", "a.out"]);
+    });
+
+    test("files in an ignored folder can't be brought back", async () => {
+        const repository = OSPath.join(root, "parent");
+        writeTree(repository, {
+            ".git/HEAD": "ref: refs/heads/main\n",
+            ".gitignore": "build/\n!build/keep.txt\n",
+            "build/.gitignore": "!keep.txt\n",
+            "build/keep.txt": "",
+            "build/out.js": "",
+        });
+        const build = OSPath.join(repository, "build");
+        const names = ["keep.txt", "out.js"];
+        assert.deepStrictEqual(await ignored(build, names), names);
+    });
+});
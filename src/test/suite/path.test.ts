@@ -0,0 +1,105 @@
+import * as assert from "assert";
+import * as OS from "os";
+import { Uri, FileType } from "vscode";
+import { Path } from "../../path";
+import { MemFS, scheme, useMemFS } from "../memfs";
+
+function remote(path: string): Uri {
+    return Uri.from({ scheme: "vscode-remote", authority: "ssh-remote+box", path });
+}
+
+suite("Path", () => {
+    let memfs: MemFS;
+
+    setup(() => {
+        memfs = useMemFS();
+        memfs.seed("/src/path.ts", "/empty/");
+    });
+
+    test("root() is / on the same file system", () => {
+        const root = new Path(remote("/home/user/src")).root();
+        assert.strictEqual(root.toString(), remote("/").toString());
+    });
+
+    test("root() keeps the drive of Windows style paths", () => {
+        const root = new Path(MemFS.uri("/c:/Users/user")).root();
+        assert.strictEqual(root.path, "/c:/");
+        assert.strictEqual(root.scheme, scheme);
+    });
+
+    test("atTop() is only true at the root", () => {
+        assert.ok(new Path(MemFS.uri("/")).atTop());
+        assert.ok(new Path(MemFS.uri("/c:")).atTop());
+        assert.ok(new Path(MemFS.uri("/c:/")).atTop());
+        assert.ok(!new Path(MemFS.uri("/c:/Users")).atTop());
+        assert.ok(!new Path(MemFS.uri("/src")).atTop());
+    });
+
+    test("parent() goes up a folder on the same file system", () => {
+        const parent = new Path(remote("/home/user/src")).parent();
+        assert.strictEqual(parent.id, new Path(remote("/home/user")).id);
+    });
+
+    test("parent() of the root is the root", () => {
+        const root = new Path(MemFS.uri("/"));
+        assert.ok(root.parent().equals(root));
+    });
+
+    test("pop() removes the last segment and returns it", () => {
+        const path = new Path(MemFS.uri("/src/test"));
+        assert.strictEqual(path.pop().unwrap(), "test");
+        assert.strictEqual(path.uri.path, "/src");
+        assert.strictEqual(path.pop().unwrap(), "src");
+        assert.ok(path.atTop());
+        assert.ok(path.pop().isNone());
+        assert.strictEqual(path.uri.scheme, scheme);
+    });
+
+    test("relativeTo() uses / on any file system", () => {
+        const path = new Path(MemFS.uri("/c:/Users/user/src"));
+        assert.strictEqual(path.relativeTo(MemFS.uri("/c:/Users")).unwrap(), "user/src");
+        assert.strictEqual(path.relativeTo(MemFS.uri("/c:/Users/user/src")).unwrap(), "");
+    });
+
+    test("relativeTo() fails across file systems", () => {
+        const path = new Path(remote("/home/user/src"));
+        assert.ok(path.relativeTo(Uri.file("/home/user")).isNone());
+        const otherHost = Uri.from({ scheme: "vscode-remote", authority: "other", path: "/" });
+        assert.ok(path.relativeTo(otherHost).isNone());
+    });
+
+    test("stat() reads the file system the path is on", async () => {
+        const stat = await new Path(MemFS.uri("/src/path.ts")).stat();
+        assert.ok(stat.isOk());
+        assert.strictEqual(stat.unwrap().type, FileType.File);
+        assert.strictEqual(memfs.calls.get("stat"), 1);
+    });
+
+    test("stat() fails for paths which don't exist", async () => {
+        assert.ok(!(await new Path(MemFS.uri("/src/missing.ts")).stat()).isOk());
+    });
+
+    test("isDir() and isFile() tell folders and files apart", async () => {
+        const file = new Path(MemFS.uri("/src/path.ts"));
+        const folder = new Path(MemFS.uri("/empty"));
+        const missing = new Path(MemFS.uri("/missing"));
+        assert.deepStrictEqual(
+            [await file.isDir(), await folder.isDir(), await missing.isDir()],
+            [false, true, false]
+        );
+        assert.deepStrictEqual(
+            [await file.isFile(), await folder.isFile(), await missing.isFile()],
+            [true, false, false]
+        );
+    });
+
+    test("home() is the user's home folder for local files", () => {
+        const home = Path.home(Path.fromFilePath(OS.tmpdir()));
+        assert.strictEqual(home.fsPath, Uri.file(OS.homedir()).fsPath);
+    });
+
+    test("home() is the root elsewhere, without a workspace folder there", () => {
+        const home = Path.home(new Path(remote("/home/user/src")));
+        assert.strictEqual(home.id, new Path(remote("/")).id);
+    });
+});
@@ -0,0 +1,193 @@
+import * as vscode from "vscode";
+import { Uri, FileType } from "vscode";
+import * as OSPath from "path";
+import { Path } from "./path";
+import { config, ConfigItem } from "./extension";
+import { FileItem } from "./fileitem";
+import { Action } from "./action";
+
+export interface TrashEntry {
+    /**
+     * Where the file was before it was deleted.
+     */
+    original: Uri;
+    /**
+     * Where the file is kept while it's in the trash.
+     */
+    staged: Uri;
+    deletedAt: number;
+}
+
+/**
+ * The file in each session's staging folder which says which process it belongs to.
+ */
+const ownerFile = ".owner";
+
+/**
+ * Whether the process `pid` is still running.
+ */
+function isRunning(pid: number): boolean {
+    try {
+        process.kill(pid, 0);
+        return true;
+    } catch (error) {
+        // It exists, but belongs to someone else
+        return (error as NodeJS.ErrnoException).code === "EPERM";
+    }
+}
+
+/**
+ * Remove the files staged in `folder`, moving them to the system trash if
+ * `file-browser.useTrash` is set.
+ */
+async function removeStaged(folder: Uri) {
+    let records: [string, FileType][];
+    try {
+        records = await vscode.workspace.fs.readDirectory(folder);
+    } catch {
+        // There was nothing in the trash.
+        return;
+    }
+    for (const [name] of records) {
+        if (name === ownerFile) {
+            continue;
+        }
+        try {
+            await vscode.workspace.fs.delete(Uri.joinPath(folder, name), {
+                recursive: true,
+                useTrash: !!config(ConfigItem.UseTrash),
+            });
+        } catch {
+            // It's already gone, or we'll try again next time
+        }
+    }
+}
+
+/**
+ * Whether the session which staged files in `folder` has ended, going by whether the
+ * process it recorded as its owner is still running. Folders without an owner were left
+ * by older versions of the extension.
+ */
+async function isAbandoned(folder: Uri): Promise<boolean> {
+    try {
+        const owner = await vscode.workspace.fs.readFile(Uri.joinPath(folder, ownerFile));
+        const pid = parseInt(owner.toString(), 10);
+        return isNaN(pid) || !isRunning(pid);
+    } catch {
+        return true;
+    }
+}
+
+/**
+ * The file browser's own trash: a staging folder in the extension's storage which deleted
+ * files are moved into, so that they can be restored later in the session.
+ *
+ * The extension's storage is shared by every window, so each session stages its files in
+ * a folder of its own, and only empties the folders of sessions which have ended.
+ */
+export class Trash {
+    private sessions: Uri;
+    private staging: Uri;
+    private counter = 0;
+    private entries: Map<string, TrashEntry> = new Map();
+
+    constructor(storage: Uri, session: string) {
+        this.sessions = Uri.joinPath(storage, "trash");
+        this.staging = Uri.joinPath(this.sessions, session);
+    }
+
+    /**
+     * Claim this session's staging folder, and empty the ones left behind by sessions
+     * which have ended, leaving those of windows still open alone.
+     */
+    async open() {
+        const fs = vscode.workspace.fs;
+        const owner = Buffer.from(`${process.pid}`);
+        try {
+            await fs.writeFile(Uri.joinPath(this.staging, ownerFile), owner);
+        } catch {
+            // The storage isn't writable, so there's no staging folder to claim
+            return;
+        }
+        let sessions: [string, FileType][];
+        try {
+            sessions = await fs.readDirectory(this.sessions);
+        } catch {
+            return;
+        }
+        for (const [name] of sessions) {
+            const folder = Uri.joinPath(this.sessions, name);
+            if (folder.toString() === this.staging.toString() || !(await isAbandoned(folder))) {
+                continue;
+            }
+            await removeStaged(folder);
+            try {
+                await fs.delete(folder, { recursive: true, useTrash: false });
+            } catch {
+                // Another window got there first
+            }
+        }
+    }
+
+    /**
+     * Allocate a place in the trash for the file at `uri`.
+     *
+     * Nothing is moved; the returned location is only listed as being in the trash once
+     * something has been moved into it.
+     */
+    allocate(uri: Uri): Uri {
+        this.counter += 1;
+        const name = OSPath.posix.basename(uri.path);
+        const staged = Uri.joinPath(this.staging, `${Date.now()}-${this.counter}`, name);
+        this.entries.set(staged.toString(), { original: uri, staged, deletedAt: Date.now() });
+        return staged;
+    }
+
+    /**
+     * List the files currently in the trash, most recently deleted first.
+     */
+    async list(): Promise<TrashEntry[]> {
+        const result: TrashEntry[] = [];
+        for (const entry of this.entries.values()) {
+            if ((await new Path(entry.staged).stat()).isOk()) {
+                result.push(entry);
+            }
+        }
+        return result.sort((left, right) => right.deletedAt - left.deletedAt);
+    }
+
+    /**
+     * Whether `uri` is in this session's staging folder.
+     */
+    contains(uri: Uri): boolean {
+        const prefix = this.staging.toString() + "/";
+        return uri.toString().startsWith(prefix);
+    }
+
+    find(staged: Uri): TrashEntry | undefined {
+        return this.entries.get(staged.toString());
+    }
+
+    /**
+     * Remove everything this session has put in the trash.
+     *
+     * If `file-browser.useTrash` is set, the files are moved to the system trash, otherwise
+     * they're deleted permanently.
+     */
+    async empty() {
+        this.entries.clear();
+        await removeStaged(this.staging);
+    }
+}
+
+export function trashItem(entry: TrashEntry): FileItem {
+    const name = OSPath.posix.basename(entry.original.path);
+    return {
+        label: `$(history) ${name}`,
+        name,
+        description: `from ${new Path(entry.original).parent().fsPath}`,
+        alwaysShow: true,
+        action: Action.RestoreFromTrash,
+        target: entry.staged,
+    };
+}
@@ -0,0 +1,130 @@
+import * as vscode from "vscode";
+import { Memento, Uri, WorkspaceFolder, TextEditor } from "vscode";
+import * as OSPath from "path";
+import { Option, None } from "@bodil/opt";
+import { Path } from "./path";
+
+const storageKey = "file-browser.recentRoots";
+
+const maxRecentRoots = 20;
+
+/**
+ * Keeps track of the workspace folders the user works in: the one they're in right now, and
+ * the ones they've opened before, across workspaces.
+ */
+export class WorkspaceRoots {
+    private store: Memento;
+    private lastFolder: Option<WorkspaceFolder> = None;
+
+    constructor(store: Memento) {
+        this.store = store;
+    }
+
+    /**
+     * Note the workspace folder of the editor the user switched to, so we can still start
+     * there once it's closed.
+     */
+    editorChanged(editor: TextEditor | undefined) {
+        if (editor !== undefined) {
+            const folder = vscode.workspace.getWorkspaceFolder(editor.document.uri);
+            if (folder !== undefined) {
+                this.lastFolder = Option.from(folder);
+            }
+        }
+    }
+
+    /**
+     * The workspace folder the user is working in: the one the active editor belongs to, or
+     * the last one an editor belonged to, or failing that the first one.
+     */
+    current(): Option<WorkspaceFolder> {
+        const document = vscode.window.activeTextEditor?.document;
+        const folders = vscode.workspace.workspaceFolders || [];
+        return Option.from(document && vscode.workspace.getWorkspaceFolder(document.uri))
+            .chainNone(() =>
+                // The folder may have been removed from the workspace since
+                this.lastFolder.chain((last) =>
+                    Option.from(
+                        folders.find((folder) => folder.uri.toString() === last.uri.toString())
+                    )
+                )
+            )
+            .chainNone(() => Option.from(folders[0]));
+    }
+
+    /**
+     * Remember the folders of the current workspace, most recent first.
+     */
+    async remember() {
+        const folders = (vscode.workspace.workspaceFolders || []).map((folder) =>
+            folder.uri.toString()
+        );
+        const recent = this.store.get<string[]>(storageKey, []);
+        await this.store.update(
+            storageKey,
+            [...folders, ...recent.filter((id) => !folders.includes(id))].slice(0, maxRecentRoots)
+        );
+    }
+
+    /**
+     * List the folders opened in other workspaces, most recent first.
+     */
+    recent(): Path[] {
+        const folders = (vscode.workspace.workspaceFolders || []).map((folder) =>
+            folder.uri.toString()
+        );
+        return this.store
+            .get<string[]>(storageKey, [])
+            .filter((id) => !folders.includes(id))
+            .map((id) => new Path(Uri.parse(id)));
+    }
+}
+
+/**
+ * How to show a path to the user. In a multi-root workspace, paths inside a workspace folder
+ * are shown relative to it, prefixed with the folder's name.
+ */
+export function displayPath(path: Path): string {
+    const folders = vscode.workspace.workspaceFolders || [];
+    if (folders.length < 2) {
+        return path.fsPath;
+    }
+    return path
+        .getWorkspaceFolder()
+        .chain((folder) =>
+            path
+                .relativeTo(folder.uri)
+                .map((relativePath) =>
+                    relativePath === "" ? folder.name : OSPath.join(folder.name, relativePath)
+                )
+        )
+        .getOr(path.fsPath);
+}
+
+/**
+ * Ask the user to pick a workspace folder, or a folder from another workspace they've had
+ * open.
+ */
+export async function pickRoot(roots: WorkspaceRoots): Promise<Option<Path>> {
+    const items = [
+        ...(vscode.workspace.workspaceFolders || []).map((folder) => ({
+            label: `$(root-folder) ${folder.name}`,
+            description: folder.uri.fsPath,
+            path: new Path(folder.uri),
+        })),
+        ...roots.recent().map((path) => ({
+            label: `$(history) ${OSPath.basename(path.fsPath) || path.fsPath}`,
+            description: path.fsPath,
+            path,
+        })),
+    ];
+    if (items.length === 0) {
+        vscode.window.showInformationMessage("There are no workspace folders to switch to");
+        return None;
+    }
+    const choice = await vscode.window.showQuickPick(items, {
+        placeHolder: "Switch to a workspace folder",
+        matchOnDescription: true,
+    });
+    return Option.from(choice).map((choice) => choice.path);
+}